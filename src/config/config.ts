@@ -5,6 +5,40 @@ if (process.env.NODE_ENV !== "production") {
   require("dotenv").config();
 }
 
+/**
+ * Parse the per-route rate limits from RATE_LIMIT_ROUTES, failing with an
+ * error that names the variable rather than a bare SyntaxError
+ * @param value - JSON object of route names to { capacity, refillPerSecond }
+ */
+function parseRouteLimits(
+  value: string
+): Record<string, { capacity: number; refillPerSecond: number }> {
+  let routes: unknown;
+  try {
+    routes = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`RATE_LIMIT_ROUTES is not valid JSON: ${error.message}`);
+  }
+
+  if (typeof routes !== "object" || routes === null || Array.isArray(routes)) {
+    throw new Error("RATE_LIMIT_ROUTES must be a JSON object");
+  }
+  for (const [route, limit] of Object.entries(routes)) {
+    if (
+      !(Number.isFinite(limit?.capacity) && limit.capacity > 0) ||
+      !(Number.isFinite(limit?.refillPerSecond) && limit.refillPerSecond > 0)
+    ) {
+      throw new Error(
+        `RATE_LIMIT_ROUTES["${route}"] needs a positive numeric capacity and refillPerSecond`
+      );
+    }
+  }
+  return routes as Record<
+    string,
+    { capacity: number; refillPerSecond: number }
+  >;
+}
+
 export default {
   // Server configuration
   server: {
@@ -12,8 +46,6 @@ export default {
     host: process.env.HOST || "0.0.0.0",
   },
 
-
-
   // AWS configuration
   aws: {
     region: process.env.AWS_REGION || "us-east-1",
@@ -26,6 +58,13 @@ export default {
       tableNames: {
         users: process.env.USERS_TABLE || "Users",
         messages: process.env.MESSAGES_TABLE || "Messages",
+        subscriptions:
+          process.env.SUBSCRIPTIONS_TABLE_NAME || "socket-subscriptions",
+        sessions: process.env.SESSIONS_TABLE_NAME || "Sessions",
+        sessionMembers:
+          process.env.SESSION_MEMBERS_TABLE_NAME || "SessionMembers",
+        presence: process.env.PRESENCE_TABLE_NAME || "Presence",
+        rateLimits: process.env.RATE_LIMITS_TABLE_NAME || "RateLimits",
         // Add other tables as needed
       },
     },
@@ -34,10 +73,145 @@ export default {
     },
   },
 
+  // API Gateway WebSocket configuration
+  websocket: {
+    // Management API endpoint override, e.g. https://{apiId}.execute-api.{region}.amazonaws.com/{stage}
+    callbackUrl: process.env.WEBSOCKET_CALLBACK_URL?.replace(/\/+$/, ""),
+    // Maximum number of concurrent PostToConnection calls per broadcast
+    broadcastConcurrency: parseInt(process.env.BROADCAST_CONCURRENCY || "25"),
+    // Minimum interval between typing/read signals fanned out per connection
+    signalThrottleMs: parseInt(process.env.SIGNAL_THROTTLE_MS || "2000"),
+    // Connections silent for longer than this are probed by the reaper.
+    // API Gateway closes idle connections after 10 minutes.
+    connectionIdleMs: parseInt(process.env.CONNECTION_IDLE_MS || "600000"),
+  },
+
+  // Presence kept alive by heartbeats
+  presence: {
+    // A user's connection count lapses when no connection heartbeats for
+    // this long. API Gateway connections heartbeat on ping and when the
+    // reaper finds them alive, so this must exceed CONNECTION_IDLE_MS plus
+    // the reaper's interval.
+    ttlMs: parseInt(process.env.PRESENCE_TTL_MS || "1200000"),
+    // How often each Socket.io process refreshes its users' presence
+    heartbeatMs: parseInt(process.env.PRESENCE_HEARTBEAT_MS || "300000"),
+    // Who may see a user's presence: "sessions" (the user and anyone sharing
+    // a session with them) or "public" (anyone signed in)
+    visibility: process.env.PRESENCE_VISIBILITY || "sessions",
+  },
+
+  // Asynchronous outbound delivery (SQS in production, in-memory locally)
+  outbound: {
+    // Queue large broadcasts instead of posting them within the request
+    async: process.env.OUTBOUND_ASYNC === "true",
+    // Broadcasts to fewer connections than this are still sent inline
+    asyncThreshold: parseInt(process.env.OUTBOUND_ASYNC_THRESHOLD || "50"),
+    // Without a queue URL an in-memory queue is used
+    queueUrl: process.env.OUTBOUND_QUEUE_URL,
+    deadLetterQueueUrl: process.env.OUTBOUND_DLQ_URL,
+    // Delivery attempts per connection before a job is dead-lettered
+    maxAttempts: parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || "5"),
+  },
+
+  // Rate limiting of inbound WebSocket messages (token buckets)
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== "false",
+    // Where API Gateway buckets are kept: memory (per Lambda instance) or
+    // dynamodb (shared). Socket.io always uses memory.
+    store: process.env.RATE_LIMIT_STORE || "memory",
+    // Burst size and messages per second allowed per connection
+    connection: {
+      capacity: parseInt(process.env.RATE_LIMIT_CONNECTION_BURST || "20"),
+      refillPerSecond: parseFloat(
+        process.env.RATE_LIMIT_CONNECTION_RATE || "10"
+      ),
+    },
+    // Burst size and messages per second allowed per user, across connections
+    user: {
+      capacity: parseInt(process.env.RATE_LIMIT_USER_BURST || "50"),
+      refillPerSecond: parseFloat(process.env.RATE_LIMIT_USER_RATE || "20"),
+    },
+    // Extra per-route limits as JSON, e.g.
+    // {"session.send":{"capacity":5,"refillPerSecond":1}}
+    routes: parseRouteLimits(process.env.RATE_LIMIT_ROUTES || "{}"),
+    // Disconnect clients with more rejected messages than this per window
+    maxViolations: parseInt(process.env.RATE_LIMIT_MAX_VIOLATIONS || "20"),
+    violationWindowMs: parseInt(
+      process.env.RATE_LIMIT_VIOLATION_WINDOW_MS || "60000"
+    ),
+  },
+
+  // Admission control for API Gateway $connect
+  admission: {
+    // Open connections allowed per user (0 for no limit)
+    maxConnectionsPerUser: parseInt(
+      process.env.MAX_CONNECTIONS_PER_USER || "10"
+    ),
+    // At the per-user limit: "reject" the new connection or "evict" the oldest
+    userLimitMode: process.env.CONNECTION_LIMIT_MODE || "reject",
+    // Open connections allowed across the stage (0 for no limit)
+    maxConnections: parseInt(process.env.MAX_CONNECTIONS || "0"),
+    // Burst size and connection attempts per second allowed per source IP
+    connectRate: {
+      capacity: parseInt(process.env.CONNECT_RATE_BURST || "10"),
+      refillPerSecond: parseFloat(process.env.CONNECT_RATE || "1"),
+    },
+  },
+
+  // Server-initiated push (POST /push) configuration
+  push: {
+    // Shared secret expected in the x-push-secret header
+    sharedSecret: process.env.PUSH_SHARED_SECRET,
+    // Accept IAM (SigV4) callers authorized by API Gateway
+    iamAuth: process.env.PUSH_IAM_AUTH !== "false",
+    // Comma-separated IAM ARNs allowed to push; empty allows no IAM caller
+    allowedIamArns: (process.env.PUSH_ALLOWED_IAM_ARNS || "")
+      .split(",")
+      .map((arn) => arn.trim())
+      .filter(Boolean),
+  },
+
   // Authentication configuration
   auth: {
     cookieName: process.env.AUTH_COOKIE_NAME || "authToken",
+    // Where to look for the token, in order: cookie, header (Authorization:
+    // Bearer), query (?token=) and subprotocol (Sec-WebSocket-Protocol)
+    tokenExtractors: (process.env.AUTH_TOKEN_EXTRACTORS || "cookie")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    queryParam: process.env.AUTH_QUERY_PARAM || "token",
+    // Subprotocol offered alongside the token, e.g. ["bearer", token]
+    subprotocol: process.env.AUTH_SUBPROTOCOL || "bearer",
     jwksCacheTTL: parseInt(process.env.JWKS_CACHE_TTL || "86400000"), // 24 hours in milliseconds
+    // Minimum interval between JWKS refetches for unknown key IDs (after a
+    // key rotation) or while the JWKS URL is unreachable
+    jwksRefetchInterval: parseInt(process.env.JWKS_REFETCH_INTERVAL || "60000"),
+    // Identity provider: cognito, oidc (discovery from AUTH_ISSUER), jwks
+    // (static AUTH_JWKS_FILE) or secret (HS256 with JWT_SECRET)
+    provider: process.env.AUTH_PROVIDER || "cognito",
+    // Expected issuer; required for oidc, optional for jwks and secret
+    issuer: process.env.AUTH_ISSUER,
+    jwksFile: process.env.AUTH_JWKS_FILE,
+    jwtSecret: process.env.JWT_SECRET,
+    // Signing algorithms accepted for JWKS-based providers
+    algorithms: (process.env.AUTH_ALGORITHMS || "RS256")
+      .split(",")
+      .map((algorithm) => algorithm.trim())
+      .filter(Boolean),
+    // Optional claim checks: comma-separated audiences, Cognito token_use
+    // ("access" or "id") and comma-separated client IDs
+    audience: (process.env.AUTH_AUDIENCE || "")
+      .split(",")
+      .map((audience) => audience.trim())
+      .filter(Boolean),
+    tokenUse: process.env.AUTH_TOKEN_USE,
+    clientIds: (process.env.AUTH_CLIENT_IDS || "")
+      .split(",")
+      .map((clientId) => clientId.trim())
+      .filter(Boolean),
+    // Claim holding the user's roles for authorization policies
+    rolesClaim: process.env.AUTH_ROLES_CLAIM || "cognito:groups",
   },
 
   // Logging configuration
@@ -1,14 +1,24 @@
 // lambda.ts
 import fastify, { FastifyInstance } from "fastify";
 import awsLambdaFastify from "@fastify/aws-lambda";
-import { Context, APIGatewayProxyEvent } from "aws-lambda";
+import { Context, APIGatewayProxyEvent, ScheduledEvent } from "aws-lambda";
 import config from "./config/config";
 import fastifyCookie from "@fastify/cookie";
 import fastifyHelmet from "@fastify/helmet";
-import socketPlugin from "./plugins/socketPlugin";
+import webSocketPlugin from "./plugins/webSocketPlugin";
+import pushPlugin from "./plugins/pushPlugin";
+import presencePlugin from "./plugins/presencePlugin";
 import { v4 as uuidv4 } from "uuid";
 import sentryMonitoring from "./plugins/sentryMonitoringPlugin";
-import errorHandlerPlugin from "./plugins/errorHandlerPlugin";
+import { webSocketAuthMiddleware } from "./middleware/webSocketAuth";
+import { createEventDispatcher } from "./utils/eventDispatcher";
+import messageService, { outboundQueue } from "./services/messageService";
+import connectionService, {
+  connectionsTable,
+} from "./services/connectionService";
+import subscriptionService from "./services/subscriptionService";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
 
 // Create the Fastify app
 const app: FastifyInstance = fastify({
@@ -53,9 +63,14 @@ const registerPlugins = () => {
     },
   });
 
-  // Register the custom Socket.io plugin with enhanced request ID support
-  app.register(socketPlugin);
-  app.register(errorHandlerPlugin);
+  // Register the API Gateway WebSocket handlers (exposed as app.websocket)
+  app.register(webSocketPlugin);
+
+  // Register the authenticated server-to-server push routes
+  app.register(pushPlugin);
+
+  // Register the presence lookup routes
+  app.register(presencePlugin);
 };
 
 // Add health check route
@@ -77,6 +92,12 @@ addHealthCheck();
 // Create the Lambda handlers for different types of API Gateway events
 const httpProxy = awsLambdaFastify(app);
 
+// Handlers for EventBridge, SQS and DynamoDB Streams events, registered by
+// the jobs and consumers deployed with this function
+export const eventDispatcher = createEventDispatcher(
+  app.log.child({ component: "event_dispatcher" })
+);
+
 // Main handler that routes different types of events
 export const handler = async (event: any, context: Context) => {
   // Set the request ID from AWS context
@@ -87,6 +108,12 @@ export const handler = async (event: any, context: Context) => {
     return handleWebSocketEvent(event, context, requestId);
   }
 
+  // For EventBridge (including scheduled), SQS and DynamoDB Streams events
+  const dispatched = await eventDispatcher.dispatch(event, context);
+  if (dispatched.handled) {
+    return dispatched.response;
+  }
+
   // For HTTP events from API Gateway
   if (event.headers !== undefined) {
     // Ensure headers object exists
@@ -111,7 +138,7 @@ export const handler = async (event: any, context: Context) => {
 
 // Handler for WebSocket-specific events
 async function handleWebSocketEvent(
-  event: any,
+  event: APIGatewayProxyEvent,
   context: Context,
   requestId: string
 ) {
@@ -125,32 +152,46 @@ async function handleWebSocketEvent(
   });
 
   try {
+    // Make sure all plugins (and the websocket decorator) are loaded
+    await app.ready();
+
+    // Only $connect carries headers; propagate the request ID like HTTP events
+    if (event.headers && !event.headers["x-request-id"]) {
+      event.headers["x-request-id"] = requestId;
+    }
+
     switch (routeKey) {
-      case "$connect":
-        // Handle new WebSocket connection
-        // You might want to store connection info in DynamoDB here
-        return { statusCode: 200, body: "Connected" };
+      case "$connect": {
+        // Throttle connection attempts per IP before any auth work
+        const throttled = await app.websocket.throttleConnect(event);
+        if (throttled) {
+          return throttled;
+        }
 
-      case "$disconnect":
-        // Handle WebSocket disconnection
-        // You might want to remove connection from DynamoDB here
-        return { statusCode: 200, body: "Disconnected" };
+        // Authenticate before the connection is stored
+        const auth = await webSocketAuthMiddleware(app, event);
+        if (auth.statusCode !== 200) {
+          return { statusCode: auth.statusCode, body: auth.body || "" };
+        }
+        const response = await app.websocket.handleConnect(event, auth.user);
 
-      case "$default":
-        // Handle default route
-        // Process the message and possibly broadcast to other clients
-        // The actual Socket.io handling will be done by your socketPlugin
-        break;
+        // Browsers drop the connection unless the offered subprotocol is echoed
+        if (auth.subprotocol && response.statusCode === 200) {
+          response.headers = {
+            ...response.headers,
+            "Sec-WebSocket-Protocol": auth.subprotocol,
+          };
+        }
+        return response;
+      }
+
+      case "$disconnect":
+        return await app.websocket.handleDisconnect(event);
 
       default:
-        // Handle custom routes
-        // These could be specific message types defined in your app
-        break;
+        // $default and custom routes are handled as messages
+        return await app.websocket.handleMessage(event);
     }
-
-    // Pass the WebSocket event to your Socket.io plugin
-    // Note: You'll need to adapt your socketPlugin to handle these events
-    return await httpProxy(event, context);
   } catch (error) {
     app.log.error({
       message: "Error handling WebSocket event",
@@ -167,6 +208,62 @@ async function handleWebSocketEvent(
   }
 }
 
+// Scheduled (EventBridge rate) handler that removes connections which went
+// away without a $disconnect, e.g. after API Gateway's idle timeout, and
+// closes connections whose token expired
+export const reaperHandler = async (
+  event: ScheduledEvent,
+  context: Context
+) => {
+  app.log.info({
+    message: "Connection reaper started",
+    requestId: context.awsRequestId,
+    scheduledAt: event.time,
+  });
+
+  await app.ready();
+  const reaped = await app.websocket.reapIdleConnections(
+    config.websocket.connectionIdleMs
+  );
+  const expired = await app.websocket.expireConnections();
+  return { ...reaped, expired };
+};
+
+// Also runnable through the main handler on a "...-reap-connections" schedule
+eventDispatcher.onSchedule("reap-connections", reaperHandler);
+
+// Consumer of the outbound delivery queue (OUTBOUND_QUEUE_URL). A record
+// only fails when the job itself can't be processed; failed connections are
+// retried by processDelivery.
+eventDispatcher.onQueue(outboundQueue.name, async (record) => {
+  await messageService.processDelivery(JSON.parse(record.body));
+});
+
+// Connections deleted by the DynamoDB TTL never reach closeConnection. Their
+// slot, presence and subscriptions are released from the table's stream
+// (filtered to TTL deletions in template.yaml).
+eventDispatcher.onStream(connectionsTable, async (record) => {
+  if (
+    record.eventName !== "REMOVE" ||
+    record.userIdentity?.type !== "Service" ||
+    !record.dynamodb?.OldImage
+  ) {
+    return;
+  }
+
+  // The stream's image uses the same wire format as the SDK's AttributeValue
+  const connection = unmarshall(
+    record.dynamodb.OldImage as Record<string, AttributeValue>
+  );
+  await subscriptionService.removeConnection(connection.connectionId);
+  const change = await connectionService.releaseConnection(connection);
+
+  // Presence is best-effort; retrying the record would release twice
+  await messageService
+    .publishPresence(null, change)
+    .catch((error) => app.log.error({ error }, "Failed to publish presence"));
+});
+
 // Lambda has its own lifecycle management, but we can define a cleanup function
 // that AWS Lambda may call during function shutdown
 export const cleanup = async () => {
@@ -185,7 +282,7 @@ export const cleanup = async () => {
 
     app.log.info("Lambda shutdown completed");
   } catch (err) {
-    app.log.error("Error during shutdown:", err);
+    app.log.error({ err }, "Error during shutdown");
     throw err;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,208 @@
+// middleware/authorization.ts
+import { Socket } from "socket.io";
+import { JwtPayload } from "jsonwebtoken";
+import config from "../config/config";
+import { AuthError } from "../utils/errorHandler";
+
+/**
+ * The authenticated user, with the roles and scopes read from the token
+ */
+export interface Principal {
+  userId: string;
+  // Cognito groups, or the claim set by AUTH_ROLES_CLAIM
+  roles: string[];
+  // OAuth scopes from the `scope` (or `scp`) claim
+  scopes: string[];
+  claims: JwtPayload;
+}
+
+/**
+ * Requirements to send a route or join a channel. All the given checks must
+ * pass: one of the roles, all of the scopes, and the predicate.
+ */
+export interface Policy<T = any> {
+  roles?: string[];
+  scopes?: string[];
+  allow?: (principal: Principal, resource: T) => boolean | Promise<boolean>;
+}
+
+/**
+ * What a route policy is checked against
+ */
+export interface RouteResource {
+  action: string;
+  data: any;
+}
+
+/**
+ * What a channel policy is checked against
+ */
+export interface ChannelResource {
+  channel: string;
+}
+
+/**
+ * Read a claim holding a list, either as an array or a space/comma-separated string
+ */
+function getListClaim(claims: JwtPayload, name: string): string[] {
+  const value = claims[name];
+  if (Array.isArray(value)) {
+    return value.filter((item) => typeof item === "string");
+  }
+  if (typeof value === "string") {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Get the principal of a verified token payload
+ * @param claims - The token payload, or undefined for an unauthenticated connection
+ */
+export function getPrincipal(claims?: JwtPayload): Principal | undefined {
+  if (!claims?.sub) {
+    return undefined;
+  }
+
+  return {
+    userId: claims.sub,
+    roles: getListClaim(claims, config.auth.rolesClaim),
+    scopes: [...getListClaim(claims, "scope"), ...getListClaim(claims, "scp")],
+    claims,
+  };
+}
+
+/**
+ * Check a principal against a policy
+ * @param principal - The authenticated user
+ * @param policy - The policy, or undefined if anyone may proceed
+ * @param resource - The route or channel, passed to the policy predicate
+ * @param description - What was attempted, e.g. `join channel "admins"`
+ * @param socketId - The connection the request came from
+ * @throws AuthError with a FORBIDDEN code if the policy denies the request
+ */
+export async function authorize<T>(
+  principal: Principal | undefined,
+  policy: Policy<T> | undefined,
+  resource: T,
+  description: string,
+  socketId?: string
+): Promise<void> {
+  if (!policy) {
+    return;
+  }
+
+  if (!principal) {
+    throw new AuthError(
+      "Connection is not authenticated",
+      "UNAUTHORIZED",
+      socketId
+    );
+  }
+
+  const allowed =
+    (!policy.roles?.length ||
+      policy.roles.some((role) => principal.roles.includes(role))) &&
+    (!policy.scopes?.length ||
+      policy.scopes.every((scope) => principal.scopes.includes(scope))) &&
+    (!policy.allow || (await policy.allow(principal, resource)));
+
+  if (!allowed) {
+    throw new AuthError(
+      `You are not allowed to ${description}`,
+      "FORBIDDEN",
+      socketId
+    );
+  }
+}
+
+// Channel policies by channel name, or by prefix for names ending in "*"
+const channelPolicies = new Map<string, Policy<ChannelResource>>();
+
+/**
+ * Declare who may join a channel, on both the Socket.io and API Gateway transports
+ * @param pattern - The channel name, or a prefix followed by "*" (e.g. "admin:*")
+ * @param policy - The policy
+ */
+export function defineChannelPolicy(
+  pattern: string,
+  policy: Policy<ChannelResource>
+): void {
+  if (channelPolicies.has(pattern)) {
+    throw new Error(`Channel policy for "${pattern}" is already defined`);
+  }
+  channelPolicies.set(pattern, policy);
+}
+
+/**
+ * Get the policy of a channel: the exact match, else the longest matching prefix
+ * @param channel - The channel name
+ */
+export function getChannelPolicy(
+  channel: string
+): Policy<ChannelResource> | undefined {
+  const exact = channelPolicies.get(channel);
+  if (exact) {
+    return exact;
+  }
+
+  let match: { prefix: string; policy: Policy<ChannelResource> } | undefined;
+  for (const [pattern, policy] of channelPolicies) {
+    if (!pattern.endsWith("*")) {
+      continue;
+    }
+    const prefix = pattern.slice(0, -1);
+    if (
+      channel.startsWith(prefix) &&
+      (!match || prefix.length > match.prefix.length)
+    ) {
+      match = { prefix, policy };
+    }
+  }
+  return match?.policy;
+}
+
+/**
+ * Check that a principal may join a channel
+ * @param principal - The authenticated user
+ * @param channel - The channel name
+ * @param socketId - The connection the request came from
+ * @throws AuthError with a FORBIDDEN code if the channel's policy denies it
+ */
+export async function authorizeChannel(
+  principal: Principal | undefined,
+  channel: string,
+  socketId?: string
+): Promise<void> {
+  await authorize(
+    principal,
+    getChannelPolicy(channel),
+    { channel },
+    `join channel "${channel}"`,
+    socketId
+  );
+}
+
+/**
+ * Guard a Socket.io event handler with a policy. Wrap it with
+ * `withErrorHandling` so denials reach the client as error frames.
+ * @param event - The event name
+ * @param policy - The policy
+ * @param handler - The event handler
+ */
+export function withPolicy(
+  event: string,
+  policy: Policy<RouteResource>,
+  handler: (socket: Socket, data: any, ...args: any[]) => unknown
+) {
+  return async (socket: Socket, data: any, ...args: any[]) => {
+    await authorize(
+      getPrincipal((socket as any).user),
+      policy,
+      { action: event, data },
+      `send "${event}"`,
+      socket.id
+    );
+    return handler(socket, data, ...args);
+  };
+}
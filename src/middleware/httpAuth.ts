@@ -0,0 +1,34 @@
+// middleware/httpAuth.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { authenticateFromCookie } from "../plugins/auth";
+import { extractToken } from "./tokenExtractors";
+import { AuthError } from "../utils/errorHandler";
+
+/**
+ * Authentication hook for HTTP routes called by signed-in clients.
+ * Validates the JWT token found by the configured extractors, like the
+ * socket middlewares, and attaches the token payload as `request.user`.
+ */
+export async function userAuthMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const log = request.log.child({ event: "http_auth_attempt" });
+
+  const extracted = extractToken({
+    headers: request.headers,
+    query: request.query as Record<string, string>,
+  });
+  if (!extracted) {
+    log.warn("Missing authentication token");
+    throw new AuthError("Missing authentication token", "UNAUTHORIZED");
+  }
+
+  const user = await authenticateFromCookie(extracted.token);
+  if (!user) {
+    log.warn("Invalid authentication token");
+    throw new AuthError("Invalid authentication token", "UNAUTHORIZED");
+  }
+
+  (request as any).user = user;
+}
@@ -0,0 +1,61 @@
+// middleware/pushAuth.test.ts
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FastifyReply, FastifyRequest } from "fastify";
+import config from "../config/config";
+import { PUSH_SECRET_HEADER, pushAuthMiddleware } from "./pushAuth";
+
+function request(
+  userArn?: string,
+  headers: Record<string, string> = {}
+): FastifyRequest {
+  return {
+    headers,
+    log: { child: () => ({ info() {}, warn() {} }) },
+    awsLambda: { event: { requestContext: { identity: { userArn } } } },
+  } as unknown as FastifyRequest;
+}
+
+const reply = {} as FastifyReply;
+
+describe("pushAuthMiddleware", () => {
+  const push = { ...config.push };
+
+  afterEach(() => {
+    Object.assign(config.push, push);
+  });
+
+  it("refuses IAM callers when no ARNs are allowed", async () => {
+    Object.assign(config.push, { iamAuth: true, allowedIamArns: [] });
+
+    await assert.rejects(
+      pushAuthMiddleware(request("arn:aws:iam::1:role/any"), reply),
+      { errorCode: "FORBIDDEN" }
+    );
+  });
+
+  it("admits IAM callers on the allow-list", async () => {
+    Object.assign(config.push, {
+      iamAuth: true,
+      allowedIamArns: ["arn:aws:iam::1:role/pusher"],
+    });
+
+    await pushAuthMiddleware(request("arn:aws:iam::1:role/pusher"), reply);
+  });
+
+  it("admits requests with the shared secret", async () => {
+    Object.assign(config.push, { sharedSecret: "s3cret" });
+
+    await pushAuthMiddleware(
+      request(undefined, { [PUSH_SECRET_HEADER]: "s3cret" }),
+      reply
+    );
+    await assert.rejects(
+      pushAuthMiddleware(
+        request(undefined, { [PUSH_SECRET_HEADER]: "wrong" }),
+        reply
+      ),
+      { errorCode: "UNAUTHORIZED" }
+    );
+  });
+});
@@ -0,0 +1,63 @@
+// middleware/pushAuth.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { timingSafeEqual } from "crypto";
+import config from "../config/config";
+import { AuthError } from "../utils/errorHandler";
+
+export const PUSH_SECRET_HEADER = "x-push-secret";
+
+/**
+ * Compare two secrets in constant time
+ */
+function secretsMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Get the IAM caller ARN of a request signed with SigV4 and authorized by
+ * API Gateway (AWS_IAM authorization), for REST (v1) and HTTP (v2) APIs
+ */
+function getIamCallerArn(request: FastifyRequest): string | undefined {
+  const requestContext = (request as any).awsLambda?.event?.requestContext;
+  return (
+    requestContext?.identity?.userArn ||
+    requestContext?.authorizer?.iam?.userArn
+  );
+}
+
+/**
+ * Authentication hook for the server-to-server push routes.
+ * Accepts either an IAM-authorized caller listed in PUSH_ALLOWED_IAM_ARNS or
+ * the shared secret in the x-push-secret header. Fails closed when neither
+ * is configured: an empty allow-list admits no IAM caller.
+ */
+export async function pushAuthMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const log = request.log.child({ event: "push_auth_attempt" });
+
+  const callerArn = getIamCallerArn(request);
+  if (callerArn && config.push.iamAuth) {
+    if (config.push.allowedIamArns.includes(callerArn)) {
+      log.info({ callerArn }, "Push request authorized via IAM");
+      return;
+    }
+    log.warn({ callerArn }, "IAM caller is not allowed to push");
+    throw new AuthError("Caller is not allowed to push", "FORBIDDEN");
+  }
+
+  const secret = request.headers[PUSH_SECRET_HEADER];
+  if (
+    config.push.sharedSecret &&
+    typeof secret === "string" &&
+    secretsMatch(secret, config.push.sharedSecret)
+  ) {
+    return;
+  }
+
+  log.warn("Missing or invalid push credentials");
+  throw new AuthError("Missing or invalid push credentials", "UNAUTHORIZED");
+}
@@ -1,14 +1,15 @@
 // middleware/socketAuth.ts
 import { FastifyInstance } from "fastify";
 import { Socket } from "socket.io";
-import { authenticateFromCookie } from "../plugins/auth";
-import { getCookie } from "../utils/cookie";
+import { JwtPayload } from "jsonwebtoken";
+import { authenticateFromCookie, getTokenDeadline } from "../plugins/auth";
+import { extractToken } from "./tokenExtractors";
 import { v4 as uuidv4 } from "uuid";
-import config from "../config/config";
 
 /**
  * Socket.io authentication middleware
- * Extracts and validates the JWT token from cookies
+ * Extracts the JWT token with the extractors in `config.auth.tokenExtractors`
+ * and validates it
  * Attaches user info and request ID to the socket
  */
 export async function socketAuthMiddleware(
@@ -31,24 +32,19 @@ export async function socketAuthMiddleware(
       event: "socket_auth_attempt",
     });
 
-    // Extract the token from the cookie header
-    const cookieHeader = socket.handshake.headers.cookie;
-
-    if (!cookieHeader) {
-      log.warn("Missing authentication cookies");
-      return next(new Error("Missing authentication token"));
-    }
-
-    // Get the auth token from cookies
-    const token = getCookie(cookieHeader, config.auth.cookieName);
+    // Extract the token with the configured extractors
+    const extracted = extractToken({
+      headers: socket.handshake.headers,
+      query: socket.handshake.query,
+    });
 
-    if (!token) {
-      log.warn(`Missing ${config.auth.cookieName} cookie`);
+    if (!extracted) {
+      log.warn("Missing authentication token");
       return next(new Error("Missing authentication token"));
     }
 
     // Validate JWT token
-    const user = await authenticateFromCookie(token);
+    const user = await authenticateFromCookie(extracted.token);
     if (!user) {
       log.warn("Invalid authentication token");
       return next(new Error("Invalid authentication token"));
@@ -56,6 +52,7 @@ export async function socketAuthMiddleware(
 
     // Attach user to socket instance
     (socket as any).user = user;
+    (socket as any).tokenExpiresAt = getTokenDeadline(user as JwtPayload);
 
     log.info({ userId: user.sub }, "Socket authenticated successfully");
     next();
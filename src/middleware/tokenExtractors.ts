@@ -0,0 +1,101 @@
+// middleware/tokenExtractors.ts
+import config from "../config/config";
+import { getCookie } from "../utils/cookie";
+
+export type TokenExtractorName = "cookie" | "header" | "query" | "subprotocol";
+
+/**
+ * The parts of a handshake or HTTP request a token can be read from
+ */
+export interface TokenRequest {
+  headers: Record<string, string | string[] | undefined> | null;
+  query?: Record<string, string | string[] | undefined> | null;
+}
+
+export interface ExtractedToken {
+  token: string;
+  source: TokenExtractorName;
+  // Subprotocol to echo back in the handshake response
+  subprotocol?: string;
+}
+
+/**
+ * Get a header value regardless of its case (API Gateway keeps the
+ * client's casing, Node lower-cases them)
+ */
+function getHeader(request: TokenRequest, name: string): string | undefined {
+  const key = Object.keys(request.headers || {}).find(
+    (header) => header.toLowerCase() === name
+  );
+  const value = key ? request.headers![key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+const extractors: Record<
+  TokenExtractorName,
+  (request: TokenRequest) => ExtractedToken | undefined
+> = {
+  // Cookie named AUTH_COOKIE_NAME
+  cookie(request) {
+    const cookieHeader = getHeader(request, "cookie");
+    const token =
+      cookieHeader && getCookie(cookieHeader, config.auth.cookieName);
+    return token ? { token, source: "cookie" } : undefined;
+  },
+
+  // Authorization: Bearer <token>
+  header(request) {
+    const match = getHeader(request, "authorization")?.match(
+      /^Bearer\s+(\S+)$/i
+    );
+    return match ? { token: match[1], source: "header" } : undefined;
+  },
+
+  // ?token=<token> (or AUTH_QUERY_PARAM)
+  query(request) {
+    const value = request.query?.[config.auth.queryParam];
+    const token = Array.isArray(value) ? value[0] : value;
+    return token ? { token, source: "query" } : undefined;
+  },
+
+  // Sec-WebSocket-Protocol: <AUTH_SUBPROTOCOL>, <token>
+  // Browsers can't set headers on WebSocket connections, but they can offer
+  // subprotocols. Only the protocol name is echoed back, never the token.
+  subprotocol(request) {
+    const protocols = (getHeader(request, "sec-websocket-protocol") || "")
+      .split(",")
+      .map((protocol) => protocol.trim())
+      .filter(Boolean);
+
+    const index = protocols.indexOf(config.auth.subprotocol);
+    const token = index === -1 ? undefined : protocols[index + 1];
+    return token
+      ? { token, source: "subprotocol", subprotocol: config.auth.subprotocol }
+      : undefined;
+  },
+};
+
+/**
+ * Read the auth token from a request, trying the extractors enabled in
+ * `config.auth.tokenExtractors` in order
+ * @param request - The request headers and query parameters
+ * @param names - Extractors to try (default: config.auth.tokenExtractors)
+ * @returns The token and where it was found, or undefined if there is none
+ */
+export function extractToken(
+  request: TokenRequest,
+  names: string[] = config.auth.tokenExtractors
+): ExtractedToken | undefined {
+  for (const name of names) {
+    const extractor = extractors[name as TokenExtractorName];
+    if (!extractor) {
+      throw new Error(`Unknown token extractor "${name}"`);
+    }
+
+    const extracted = extractor(request);
+    if (extracted) {
+      return extracted;
+    }
+  }
+  return undefined;
+}
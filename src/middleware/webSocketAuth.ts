@@ -1,14 +1,28 @@
 // middleware/webSocketAuth.ts (Converted to AWS API Gateway WebSockets)
 import { FastifyInstance } from "fastify";
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { JwtPayload } from "jsonwebtoken";
 import { authenticateFromCookie } from "../plugins/auth";
-import { getCookie } from "../utils/cookie";
+import { extractToken } from "./tokenExtractors";
 import { v4 as uuidv4 } from "uuid";
-import config from "../config/config";
 import connectionService from "../services/connectionService";
 
+/**
+ * Result of authenticating a $connect event
+ */
+export interface WebSocketAuthResult {
+  statusCode: number;
+  body?: string;
+  user?: JwtPayload;
+  requestId?: string;
+  // Subprotocol the $connect response must echo in Sec-WebSocket-Protocol
+  subprotocol?: string;
+}
+
 /**
  * WebSocket authentication middleware for API Gateway
- * Extracts and validates the JWT token from cookies
+ * Extracts the JWT token with the extractors in `config.auth.tokenExtractors`
+ * and validates it
  *
  * @param fastify - Fastify instance
  * @param event - API Gateway WebSocket event
@@ -16,8 +30,8 @@ import connectionService from "../services/connectionService";
  */
 export async function webSocketAuthMiddleware(
   fastify: FastifyInstance,
-  event: any
-) {
+  event: APIGatewayProxyEvent
+): Promise<WebSocketAuthResult> {
   try {
     const connectionId = event.requestContext.connectionId;
 
@@ -31,23 +45,14 @@ export async function webSocketAuthMiddleware(
       event: "socket_auth_attempt",
     });
 
-    // Extract the cookie header
-    const cookieHeader = event.headers.Cookie || event.headers.cookie;
-
-    if (!cookieHeader) {
-      log.warn("Missing authentication cookies");
-      await connectionService.removeConnection(connectionId);
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ message: "Missing authentication token" }),
-      };
-    }
-
-    // Get the auth token from cookies
-    const token = getCookie(cookieHeader, config.auth.cookieName);
+    // Extract the token with the configured extractors
+    const extracted = extractToken({
+      headers: event.headers,
+      query: event.queryStringParameters,
+    });
 
-    if (!token) {
-      log.warn(`Missing ${config.auth.cookieName} cookie`);
+    if (!extracted) {
+      log.warn("Missing authentication token");
       await connectionService.removeConnection(connectionId);
       return {
         statusCode: 401,
@@ -56,7 +61,7 @@ export async function webSocketAuthMiddleware(
     }
 
     // Validate JWT token
-    const user = await authenticateFromCookie(token);
+    const user = await authenticateFromCookie(extracted.token);
     if (!user) {
       log.warn("Invalid authentication token");
       await connectionService.removeConnection(connectionId);
@@ -66,18 +71,16 @@ export async function webSocketAuthMiddleware(
       };
     }
 
-    // Update the connection with user data
-    await connectionService.addConnection(connectionId, {
-      requestId,
-      userId: user.sub,
-      // Add any other user data needed
-    });
-
-    log.info({ userId: user.sub }, "WebSocket authenticated successfully");
+    log.info(
+      { userId: user.sub, tokenSource: extracted.source },
+      "WebSocket authenticated successfully"
+    );
+    // The connection itself is stored by the $connect handler
     return {
       statusCode: 200,
-      user: user,
+      user: user as JwtPayload,
       requestId: requestId,
+      ...(extracted.subprotocol && { subprotocol: extracted.subprotocol }),
     };
   } catch (error) {
     const connectionId = event.requestContext.connectionId;
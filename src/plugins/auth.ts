@@ -1,41 +1,282 @@
 // plugins/auth.ts
 import axios from "axios";
+import { readFileSync } from "fs";
 import * as jwt from "jsonwebtoken";
 import jwkToPem from "jwk-to-pem";
 import config from "../config/config";
+import { AuthError } from "../utils/errorHandler";
 
 // AWS Cognito configuration
 const USER_POOL_ID = config.aws.cognito.userPoolId;
 const REGION = config.aws.region;
-const JWK_URL = `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}/.well-known/jwks.json`;
+const COGNITO_ISSUER = `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}`;
 
-// In-memory cache for JWKS
-let jwksCache: any = null;
-let jwksLastFetch = 0;
+// In-memory cache of JWKS keys, converted to PEM, per JWKS URL
+interface JwksCacheEntry {
+  // PEM by key ID
+  keys: Map<string, string>;
+  // Time of the last fetch attempt, successful or not
+  attemptedAt: number;
+  // When the keys are refreshed
+  expiresAt: number;
+}
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+// Fetches in progress, shared by concurrent requests (e.g. on a cold start)
+const jwksFetches = new Map<string, Promise<JwksCacheEntry>>();
 const CACHE_TTL = config.auth.jwksCacheTTL;
+const REFETCH_INTERVAL = config.auth.jwksRefetchInterval;
 
 /**
- * Fetch and cache the JSON Web Key Set (JWKS) from AWS Cognito.
+ * Source of the keys and claims tokens are verified against
  */
-export async function getJwks() {
-  const now = Date.now();
+export interface IdentityProvider {
+  name: string;
+  algorithms: jwt.Algorithm[];
+  /**
+   * Get the expected issuer, if tokens must come from a specific one
+   */
+  getIssuer(): Promise<string | undefined>;
+  /**
+   * Get the key that verifies a token
+   * @param header - The token header, carrying the key ID
+   */
+  getKey(header: jwt.JwtHeader): Promise<jwt.Secret>;
+}
 
-  if (!jwksCache || now - jwksLastFetch > CACHE_TTL) {
+/**
+ * Convert the signing keys of a JWKS to PEM, by key ID
+ * @param keys - The JWKS keys
+ */
+function toPems(keys: any[]): Map<string, string> {
+  const pems = new Map<string, string>();
+  for (const key of keys || []) {
+    if (!key.kid || (key.use && key.use !== "sig")) {
+      continue;
+    }
     try {
-      const response = await axios.get(JWK_URL);
-      jwksCache = response.data.keys;
-      jwksLastFetch = now;
+      pems.set(key.kid, jwkToPem(key));
     } catch (error) {
-      console.error("Error fetching JWKs from Cognito:", error);
-      throw new Error("Failed to retrieve JWKs");
+      console.error(`Skipping unsupported JWK "${key.kid}":`, error);
     }
   }
+  return pems;
+}
+
+/**
+ * Fetch a JSON Web Key Set (JWKS). Concurrent calls share one request, and
+ * the cached keys are kept if the JWKS URL can't be reached.
+ * @param jwksUri - The JWKS URL
+ */
+function fetchJwks(jwksUri: string): Promise<JwksCacheEntry> {
+  let fetch = jwksFetches.get(jwksUri);
+  if (fetch) {
+    return fetch;
+  }
+
+  fetch = axios
+    .get(jwksUri)
+    .then((response) => {
+      const now = Date.now();
+      const entry = {
+        keys: toPems(response.data.keys),
+        attemptedAt: now,
+        expiresAt: now + CACHE_TTL,
+      };
+      jwksCache.set(jwksUri, entry);
+      return entry;
+    })
+    .catch((error) => {
+      const stale = jwksCache.get(jwksUri);
+      if (!stale) {
+        console.error("Error fetching JWKs:", error);
+        throw new Error("Failed to retrieve JWKs");
+      }
+
+      // Keep serving the keys we have and retry after the refetch interval
+      console.error("Error fetching JWKs, using cached keys:", error);
+      const now = Date.now();
+      stale.attemptedAt = now;
+      stale.expiresAt = now + REFETCH_INTERVAL;
+      return stale;
+    })
+    .finally(() => {
+      jwksFetches.delete(jwksUri);
+    });
+
+  jwksFetches.set(jwksUri, fetch);
+  return fetch;
+}
+
+/**
+ * Get the cached JSON Web Key Set (JWKS), fetching it if it expired
+ * @param jwksUri - The JWKS URL
+ */
+export async function getJwks(jwksUri: string) {
+  const cached = jwksCache.get(jwksUri);
+  if (!cached || Date.now() >= cached.expiresAt) {
+    return fetchJwks(jwksUri);
+  }
+  return cached;
+}
+
+/**
+ * Get the PEM of a token's key ID. An unknown key ID refetches the JWKS,
+ * at most once per refetch interval, to pick up rotated keys.
+ * @param jwksUri - The JWKS URL
+ * @param header - The token header
+ */
+async function getJwksKey(jwksUri: string, header: jwt.JwtHeader) {
+  if (!header.kid) {
+    throw new Error("Invalid token format");
+  }
+
+  let jwks = await getJwks(jwksUri);
+  if (
+    !jwks.keys.has(header.kid) &&
+    Date.now() - jwks.attemptedAt >= REFETCH_INTERVAL
+  ) {
+    jwks = await fetchJwks(jwksUri);
+  }
+  return findKey(jwks.keys, header);
+}
+
+/**
+ * Find the PEM matching a token's key ID
+ */
+function findKey(keys: Map<string, string>, header: jwt.JwtHeader): string {
+  const pem = header.kid && keys.get(header.kid);
+  if (!pem) {
+    throw new Error("Invalid token signature: Key ID not found");
+  }
+  return pem;
+}
 
-  return jwksCache;
+/**
+ * Provider for a remote JWKS and a fixed or discovered issuer
+ */
+function createJwksProvider(
+  name: string,
+  getConfig: () => Promise<{ issuer?: string; jwksUri: string }>
+): IdentityProvider {
+  return {
+    name,
+    algorithms: config.auth.algorithms as jwt.Algorithm[],
+    async getIssuer() {
+      return (await getConfig()).issuer;
+    },
+    async getKey(header) {
+      return getJwksKey((await getConfig()).jwksUri, header);
+    },
+  };
 }
 
+// OIDC discovery documents, fetched once per cold start
+let discovery: Promise<{ issuer: string; jwksUri: string }> | undefined;
+
 /**
- * Validate a JWT token using AWS Cognito's public keys.
+ * Fetch the issuer's OpenID Connect discovery document
+ */
+function discoverOidcIssuer() {
+  if (!discovery) {
+    const issuer = (config.auth.issuer || "").replace(/\/+$/, "");
+    discovery = axios
+      .get(`${issuer}/.well-known/openid-configuration`)
+      .then(({ data }) => ({ issuer: data.issuer, jwksUri: data.jwks_uri }))
+      .catch((error) => {
+        // Retry discovery on the next token
+        discovery = undefined;
+        console.error("Error fetching OIDC discovery document:", error);
+        throw new Error("Failed to discover OIDC issuer");
+      });
+  }
+  return discovery;
+}
+
+const providers: Record<string, () => IdentityProvider> = {
+  // AWS Cognito user pool (AWS_COGNITO_USER_POOL_ID)
+  cognito: () =>
+    createJwksProvider("cognito", async () => ({
+      issuer: COGNITO_ISSUER,
+      jwksUri: `${COGNITO_ISSUER}/.well-known/jwks.json`,
+    })),
+
+  // Any OpenID Connect issuer (Auth0, Keycloak, ...) via discovery
+  oidc: () => createJwksProvider("oidc", discoverOidcIssuer),
+
+  // Keys from a local JWKS file, e.g. a test key pair
+  jwks: () => {
+    if (!config.auth.jwksFile) {
+      throw new Error("AUTH_JWKS_FILE is not configured");
+    }
+    const keys = toPems(
+      JSON.parse(readFileSync(config.auth.jwksFile, "utf8")).keys
+    );
+    return {
+      name: "jwks",
+      algorithms: config.auth.algorithms as jwt.Algorithm[],
+      async getIssuer() {
+        return config.auth.issuer;
+      },
+      async getKey(header) {
+        return findKey(keys, header);
+      },
+    };
+  },
+
+  // HS256 tokens signed with JWT_SECRET
+  secret: () => ({
+    name: "secret",
+    algorithms: ["HS256"],
+    async getIssuer() {
+      return config.auth.issuer;
+    },
+    async getKey() {
+      if (!config.auth.jwtSecret) {
+        throw new Error("JWT_SECRET is not configured");
+      }
+      return config.auth.jwtSecret;
+    },
+  }),
+};
+
+let identityProvider: IdentityProvider | undefined;
+
+/**
+ * Get the identity provider selected by `config.auth.provider`
+ */
+export function getIdentityProvider(): IdentityProvider {
+  if (!identityProvider) {
+    const createProvider = providers[config.auth.provider];
+    if (!createProvider) {
+      throw new Error(`Unknown identity provider "${config.auth.provider}"`);
+    }
+    identityProvider = createProvider();
+  }
+  return identityProvider;
+}
+
+/**
+ * Check the claims that aren't covered by jwt.verify: Cognito's token_use
+ * and the client ID (client_id on access tokens, aud on ID tokens)
+ */
+function checkClaims(payload: jwt.JwtPayload) {
+  const { tokenUse, clientIds } = config.auth;
+
+  if (tokenUse && payload.token_use !== tokenUse) {
+    throw new Error(`Invalid token use: expected ${tokenUse}`);
+  }
+
+  if (clientIds.length > 0) {
+    const audiences = [payload.client_id, payload.aud].flat().filter(Boolean);
+    if (!audiences.some((clientId) => clientIds.includes(clientId))) {
+      throw new Error("Invalid token client");
+    }
+  }
+}
+
+/**
+ * Validate a JWT token against the configured identity provider.
  * @param token - The JWT token to validate.
  * @returns The verified token payload if successful.
  * @throws An error if the token is invalid or verification fails.
@@ -44,28 +285,26 @@ export async function validateToken(token: string) {
   // Step 1: Decode the token to extract its header.
   const decodedToken = jwt.decode(token, { complete: true });
 
-  if (!decodedToken || !decodedToken.header.kid) {
+  if (!decodedToken) {
     throw new Error("Invalid token format");
   }
 
-  // Step 2: Fetch the JWKS and find the key that matches the token's key ID.
-  const jwks = await getJwks();
-  const key = jwks.find((k: any) => k.kid === decodedToken.header.kid);
-
-  if (!key) {
-    throw new Error("Invalid token signature: Key ID not found");
-  }
-
-  // Step 3: Convert the JWK to PEM format.
-  const pem = jwkToPem(key);
+  // Step 2: Get the provider's key for the token (PEM or shared secret).
+  const provider = getIdentityProvider();
+  const key = await provider.getKey(decodedToken.header);
+  const issuer = await provider.getIssuer();
 
-  // Step 4: Verify the token using the PEM-formatted key.
+  // Step 3: Verify the signature and the issuer/audience/expiry claims.
   try {
-    const verifiedToken = jwt.verify(token, pem, {
-      issuer: `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}`,
-      algorithms: ["RS256"],
-    });
+    const verifiedToken = jwt.verify(token, key, {
+      algorithms: provider.algorithms,
+      ...(issuer && { issuer }),
+      ...(config.auth.audience.length > 0 && {
+        audience: config.auth.audience as [string, ...string[]],
+      }),
+    }) as jwt.JwtPayload;
 
+    checkClaims(verifiedToken);
     return verifiedToken;
   } catch (error) {
     console.error("JWT Verification Failed:", error);
@@ -89,3 +328,33 @@ export async function authenticateFromCookie(cookieValue: string) {
     return null;
   }
 }
+
+/**
+ * Get the time (ms since epoch) a token stops being valid
+ * @param payload - The verified token payload
+ * @returns The expiry, or undefined if the token doesn't expire
+ */
+export function getTokenDeadline(payload: jwt.JwtPayload): number | undefined {
+  return payload.exp ? payload.exp * 1000 : undefined;
+}
+
+/**
+ * Validate a token sent to keep an open connection authenticated
+ * @param token - The new JWT token
+ * @param userId - The user the connection belongs to
+ * @returns The verified token payload
+ * @throws AuthError if the token is invalid or belongs to another user
+ */
+export async function validateRefreshToken(
+  token: string,
+  userId: string
+): Promise<jwt.JwtPayload> {
+  const payload = (await authenticateFromCookie(token)) as jwt.JwtPayload;
+  if (!payload) {
+    throw new AuthError("Invalid authentication token.", "INVALID_TOKEN");
+  }
+  if (payload.sub !== userId) {
+    throw new AuthError("Token belongs to a different user", "FORBIDDEN");
+  }
+  return payload;
+}
@@ -187,5 +187,5 @@ const socketErrorHandlerPlugin: FastifyPluginCallback = (
 // Export the Fastify plugin so it can be used in the main application
 export default fastifyPlugin(socketErrorHandlerPlugin, {
   name: "socketErrorHandler",
-  dependencies: ["fastify-socket.io"],
+  dependencies: ["socketPlugin"],
 });
\ No newline at end of file
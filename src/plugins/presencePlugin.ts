@@ -0,0 +1,70 @@
+// plugins/presencePlugin.ts
+import { FastifyInstance } from "fastify";
+import presenceService, {
+  authorizePresence,
+} from "../services/presenceService";
+import { getPrincipal } from "../middleware/authorization";
+import { userAuthMiddleware } from "../middleware/httpAuth";
+import { AppError } from "../utils/errorHandler";
+
+// Maximum number of users per presence lookup
+const MAX_USER_IDS = 100;
+
+/**
+ * HTTP routes for looking up user presence, for clients that aren't
+ * connected or need statuses without subscribing to changes.
+ *
+ * @param fastify - Fastify instance
+ */
+export default async function presencePlugin(fastify: FastifyInstance) {
+  fastify.addHook("preHandler", userAuthMiddleware);
+
+  // Get the status of a comma-separated list of users
+  fastify.get<{ Querystring: { userIds: string } }>(
+    "/presence",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          required: ["userIds"],
+          properties: { userIds: { type: "string", minLength: 1 } },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              presence: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    userId: { type: "string" },
+                    status: { type: "string" },
+                    lastSeen: { type: "integer" },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const userIds = request.query.userIds
+        .split(",")
+        .map((userId) => userId.trim())
+        .filter(Boolean);
+
+      if (!userIds.length || userIds.length > MAX_USER_IDS) {
+        throw new AppError(
+          `Between 1 and ${MAX_USER_IDS} user IDs are required`,
+          400,
+          "VALIDATION_ERROR"
+        );
+      }
+
+      await authorizePresence(getPrincipal((request as any).user), userIds);
+      return { presence: await presenceService.getPresence(userIds) };
+    }
+  );
+}
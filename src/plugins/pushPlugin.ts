@@ -0,0 +1,115 @@
+// plugins/pushPlugin.ts
+import { FastifyInstance } from "fastify";
+import messageService, { BroadcastResult } from "../services/messageService";
+import { pushAuthMiddleware } from "../middleware/pushAuth";
+
+const pushBodySchema = {
+  type: "object",
+  required: ["payload"],
+  properties: {
+    payload: {},
+  },
+};
+
+const pushResponseSchema = {
+  200: {
+    type: "object",
+    properties: {
+      delivered: { type: "integer" },
+      failed: { type: "integer" },
+      pruned: { type: "integer" },
+      queued: { type: "integer" },
+    },
+  },
+};
+
+/**
+ * Summarize a broadcast for the HTTP response
+ */
+function summarize(result: BroadcastResult) {
+  return {
+    delivered: result.delivered,
+    failed: result.failed,
+    pruned: result.pruned,
+    queued: result.queued,
+  };
+}
+
+/**
+ * HTTP routes that let other backend services push data to connected
+ * WebSocket clients. Messages are posted through WEBSOCKET_CALLBACK_URL
+ * since these requests don't come from the WebSocket API.
+ *
+ * @param fastify - Fastify instance
+ */
+export default async function pushPlugin(fastify: FastifyInstance) {
+  fastify.addHook("preHandler", pushAuthMiddleware);
+
+  // Push to explicit connection IDs
+  fastify.post<{ Body: { connectionIds: string[]; payload: unknown } }>(
+    "/push",
+    {
+      schema: {
+        body: {
+          ...pushBodySchema,
+          required: ["connectionIds", "payload"],
+          properties: {
+            ...pushBodySchema.properties,
+            connectionIds: {
+              type: "array",
+              items: { type: "string", minLength: 1 },
+              minItems: 1,
+              maxItems: 1000,
+            },
+          },
+        },
+        response: pushResponseSchema,
+      },
+    },
+    async (request) => {
+      const { connectionIds, payload } = request.body;
+      const result = await messageService.broadcast(
+        null,
+        connectionIds,
+        payload
+      );
+      request.log.info(summarize(result), "Pushed to connections");
+      return summarize(result);
+    }
+  );
+
+  // Push to every connection of a user
+  fastify.post<{ Params: { userId: string }; Body: { payload: unknown } }>(
+    "/push/user/:userId",
+    { schema: { body: pushBodySchema, response: pushResponseSchema } },
+    async (request) => {
+      const { userId } = request.params;
+      const result = await messageService.sendToUser(
+        null,
+        userId,
+        request.body.payload
+      );
+      request.log.info({ userId, ...summarize(result) }, "Pushed to user");
+      return summarize(result);
+    }
+  );
+
+  // Push to every connection subscribed to a channel
+  fastify.post<{ Params: { name: string }; Body: { payload: unknown } }>(
+    "/push/channel/:name",
+    { schema: { body: pushBodySchema, response: pushResponseSchema } },
+    async (request) => {
+      const { name } = request.params;
+      const result = await messageService.broadcastToChannel(
+        null,
+        name,
+        request.body.payload
+      );
+      request.log.info(
+        { channel: name, ...summarize(result) },
+        "Pushed to channel"
+      );
+      return summarize(result);
+    }
+  );
+}
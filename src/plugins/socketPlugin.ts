@@ -1,15 +1,195 @@
 // plugins/socketPlugin.ts
 import { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
 import { Server as IOServer, Socket } from "socket.io";
 import { socketAuthMiddleware } from "../middleware/socketAuth";
 import corsConfig from "../config/corsConfig";
+import {
+  AppError,
+  AuthError,
+  sendSocketError,
+  withErrorHandling,
+} from "../utils/errorHandler";
+import { getTokenDeadline, validateRefreshToken } from "./auth";
+import config from "../config/config";
+import { authorizeChannel, getPrincipal } from "../middleware/authorization";
+import {
+  createMemoryStore,
+  createRateLimiter,
+} from "../services/rateLimitService";
+import presenceService, {
+  authorizePresence,
+  PresenceChange,
+  presenceChannel,
+} from "../services/presenceService";
+
+/**
+ * Validate the channel name sent with channel.join / channel.leave
+ */
+function getChannel(socket: Socket, data: any): string {
+  const channel = data?.channel;
+  if (typeof channel !== "string" || !channel || channel.length > 128) {
+    throw new AppError(
+      "A channel name is required",
+      400,
+      "VALIDATION_ERROR",
+      socket.id
+    );
+  }
+  return channel;
+}
+
+// Rooms, mirroring the API Gateway "channel.join"/"channel.leave" routes
+const joinChannel = withErrorHandling(async (socket: Socket, data: any) => {
+  const channel = getChannel(socket, data);
+  await authorizeChannel(
+    getPrincipal((socket as any).user),
+    channel,
+    socket.id
+  );
+  await socket.join(channel);
+  return { channel };
+});
+
+const leaveChannel = withErrorHandling(async (socket: Socket, data: any) => {
+  const channel = getChannel(socket, data);
+  await socket.leave(channel);
+  return { channel };
+});
+
+/**
+ * Validate the user IDs sent with presence.subscribe / presence.unsubscribe
+ */
+function getUserIds(socket: Socket, data: any): string[] {
+  const userIds = data?.userIds;
+  if (
+    !Array.isArray(userIds) ||
+    !userIds.length ||
+    userIds.length > 100 ||
+    userIds.some((userId) => typeof userId !== "string" || !userId)
+  ) {
+    throw new AppError(
+      "Between 1 and 100 user IDs are required",
+      400,
+      "VALIDATION_ERROR",
+      socket.id
+    );
+  }
+  return userIds;
+}
+
+/**
+ * Send a presence change to the sockets subscribed to the user
+ */
+function publishPresence(socket: Socket, change: PresenceChange | null) {
+  if (change) {
+    socket.nsp.to(presenceChannel(change.userId)).emit("presence", change);
+  }
+}
+
+// Presence, mirroring the API Gateway "presence.*" routes
+const subscribePresence = withErrorHandling(
+  async (socket: Socket, data: any) => {
+    const userIds = getUserIds(socket, data);
+    await authorizePresence(
+      getPrincipal((socket as any).user),
+      userIds,
+      socket.id
+    );
+    await socket.join(userIds.map(presenceChannel));
+    return await presenceService.getPresence(userIds);
+  }
+);
+
+const unsubscribePresence = withErrorHandling(
+  async (socket: Socket, data: any) => {
+    const userIds = getUserIds(socket, data);
+    await Promise.all(
+      userIds.map((userId) => socket.leave(presenceChannel(userId)))
+    );
+    return { userIds };
+  }
+);
+
+const setPresence = withErrorHandling(async (socket: Socket, data: any) => {
+  const status = data?.status;
+  if (!["online", "away", "dnd"].includes(status)) {
+    throw new AppError(
+      "Status must be one of online, away or dnd",
+      400,
+      "VALIDATION_ERROR",
+      socket.id
+    );
+  }
+
+  const user = (socket as any).user;
+  publishPresence(socket, await presenceService.setStatus(user.sub, status));
+  return { status };
+});
+
+// setTimeout delays are capped at about 24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Disconnect the socket with a TOKEN_EXPIRED error once its token expires,
+ * replacing any deadline set before
+ */
+function scheduleTokenExpiry(socket: Socket) {
+  clearTimeout((socket as any).tokenExpiryTimer);
+
+  const tokenExpiresAt: number | undefined = (socket as any).tokenExpiresAt;
+  if (!tokenExpiresAt) {
+    return;
+  }
+
+  const expire = () => {
+    const remaining = tokenExpiresAt - Date.now();
+    if (remaining > 0) {
+      // Deadline beyond the maximum timer delay
+      (socket as any).tokenExpiryTimer = setTimeout(
+        expire,
+        Math.min(remaining, MAX_TIMER_DELAY_MS)
+      );
+      return;
+    }
+    sendSocketError(
+      socket,
+      new AuthError(
+        "Your session has expired. Please reconnect.",
+        "TOKEN_EXPIRED",
+        socket.id
+      )
+    );
+    socket.disconnect(true);
+  };
+  expire();
+}
+
+// Keep the socket authenticated with a new token before the current one expires
+const refreshToken = withErrorHandling(async (socket: Socket, data: any) => {
+  if (typeof data?.token !== "string" || !data.token) {
+    throw new AppError(
+      "A token is required",
+      400,
+      "VALIDATION_ERROR",
+      socket.id
+    );
+  }
+
+  const user = await validateRefreshToken(data.token, (socket as any).user.sub);
+  (socket as any).user = user;
+  (socket as any).tokenExpiresAt = getTokenDeadline(user);
+  scheduleTokenExpiry(socket);
+
+  return { expiresAt: (socket as any).tokenExpiresAt ?? null };
+});
 
 /**
  * Socket.io plugin for Fastify with authentication and request tracking.
  *
  * @param fastify - Fastify instance
  */
-export default async function socketPlugin(fastify: FastifyInstance) {
+async function socketPlugin(fastify: FastifyInstance) {
   const env = (process.env.NODE_ENV as keyof typeof corsConfig) || "dev";
   // Create a new Socket.io instance attached to Fastify's underlying HTTP server.
   const io = new IOServer(fastify.server, {
@@ -37,6 +217,9 @@ export default async function socketPlugin(fastify: FastifyInstance) {
   // Apply authentication middleware
   io.use((socket, next) => socketAuthMiddleware(fastify, socket, next));
 
+  // Sockets stay on this process, so buckets can be kept in memory
+  const rateLimiter = createRateLimiter(createMemoryStore());
+
   io.on("connection", (socket) => {
     const user = (socket as any).user;
     const requestId = (socket as any).requestId;
@@ -49,6 +232,43 @@ export default async function socketPlugin(fastify: FastifyInstance) {
       event: "socket_activity",
     });
 
+    // Throttle inbound events before their handlers run. Rejected events are
+    // dropped with an error frame (and a failed ack when one was requested).
+    socket.use(([eventName, ...args], next) => {
+      rateLimiter
+        .check({ connectionId: socket.id, userId: user.sub }, eventName)
+        .then((rejection) => {
+          if (!rejection) {
+            return next();
+          }
+
+          log.warn(
+            { eventName, disconnect: rejection.disconnect },
+            "Rate limit exceeded"
+          );
+          sendSocketError(socket, rejection.error);
+
+          const ack = args[args.length - 1];
+          if (typeof ack === "function") {
+            ack({
+              error: rejection.error.message,
+              errorCode: rejection.error.errorCode,
+              status: rejection.error.statusCode,
+              retryAfterMs: rejection.error.retryAfterMs,
+            });
+          }
+
+          // Clients that keep ignoring the retry-after hint are dropped
+          if (rejection.disconnect) {
+            socket.disconnect(true);
+          }
+        })
+        .catch((error) => {
+          log.error({ error }, "Failed to check rate limit");
+          next();
+        });
+    });
+
     // Listen for a custom event sent by the client.
     socket.on("customEvent", (data) => {
       log.info({ data }, "Received customEvent");
@@ -59,10 +279,65 @@ export default async function socketPlugin(fastify: FastifyInstance) {
         requestId, // Echo back the requestId for client correlation
       });
     });
+
+    socket.on("channel.join", (...args) => joinChannel(socket, ...args));
+    socket.on("channel.leave", (...args) => leaveChannel(socket, ...args));
+
+    socket.on("presence.subscribe", (...args) =>
+      subscribePresence(socket, ...args)
+    );
+    socket.on("presence.unsubscribe", (...args) =>
+      unsubscribePresence(socket, ...args)
+    );
+    socket.on("presence.set", (...args) => setPresence(socket, ...args));
+
+    socket.on("auth.refresh", (...args) => refreshToken(socket, ...args));
+    scheduleTokenExpiry(socket);
+
+    // Presence is best-effort, so failures are only logged
+    presenceService
+      .connect(user.sub)
+      .then((change) => publishPresence(socket, change))
+      .catch((error) => log.error({ error }, "Failed to update presence"));
+
+    socket.on("disconnect", () => {
+      clearTimeout((socket as any).tokenExpiryTimer);
+      presenceService
+        .disconnect(user.sub)
+        .then((change) => publishPresence(socket, change))
+        .catch((error) => log.error({ error }, "Failed to update presence"));
+    });
   });
+  // Keep the presence of this process's users alive. If the process dies,
+  // their counts lapse and the reaper resets them.
+  const presenceHeartbeat = setInterval(() => {
+    const userIds = new Set(
+      Array.from(
+        io.sockets.sockets.values(),
+        (socket) => (socket as any).user.sub
+      )
+    );
+    for (const userId of userIds) {
+      presenceService
+        .touch(userId)
+        .then((change) => {
+          if (change) {
+            io.to(presenceChannel(userId)).emit("presence", change);
+          }
+        })
+        .catch((error) =>
+          fastify.log.error({ error, userId }, "Failed to refresh presence")
+        );
+    }
+  }, config.presence.heartbeatMs);
+
   // Register a hook to close all socket connections on server shutdown
   fastify.addHook("onClose", (instance, done) => {
+    clearInterval(presenceHeartbeat);
     io.close();
     done();
   });
 }
+
+// Break encapsulation so `fastify.io` is available to the other plugins
+export default fp(socketPlugin, { name: "socketPlugin" });
@@ -0,0 +1,285 @@
+// plugins/webSocketPlugin.test.ts
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import fastify, { FastifyInstance } from "fastify";
+import { APIGatewayProxyEvent } from "aws-lambda";
+import webSocketPlugin from "./webSocketPlugin";
+import config from "../config/config";
+import connectionService from "../services/connectionService";
+import messageService from "../services/messageService";
+import admissionService from "../services/admissionService";
+import presenceService from "../services/presenceService";
+import sessionService from "../services/sessionService";
+
+function connectEvent(connectionId: string): APIGatewayProxyEvent {
+  return {
+    headers: {},
+    requestContext: { connectionId, routeKey: "$connect" },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+describe("handleConnect admission", () => {
+  const admission = { ...config.admission };
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = fastify();
+    app.register(webSocketPlugin);
+    await app.ready();
+
+    mock.method(connectionService, "addConnection", async () => {});
+    mock.method(presenceService, "connect", async (): Promise<null> => null);
+    mock.method(messageService, "sendToClient", async () => true);
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    Object.assign(config.admission, admission);
+    await app.close();
+  });
+
+  function stubUserConnections(count: number) {
+    mock.method(connectionService, "getConnectionsForUser", async () =>
+      Array.from({ length: count }, (_, i) => ({
+        connectionId: `old-${i}`,
+        timestamp: 1000 - i,
+      }))
+    );
+  }
+
+  it("rejects connections over the per-user limit with a 403", async () => {
+    Object.assign(config.admission, {
+      maxConnectionsPerUser: 2,
+      userLimitMode: "reject",
+    });
+    stubUserConnections(2);
+
+    const response = await app.websocket.handleConnect(connectEvent("new"), {
+      sub: "u1",
+    });
+    assert.equal(response.statusCode, 403);
+  });
+
+  it("evicts the oldest connections in evict mode", async () => {
+    Object.assign(config.admission, {
+      maxConnectionsPerUser: 2,
+      userLimitMode: "evict",
+    });
+    stubUserConnections(3);
+    const disconnect = mock.method(
+      messageService,
+      "disconnectConnection",
+      async () => true
+    );
+    const close = mock.method(
+      connectionService,
+      "closeConnection",
+      async (): Promise<null> => null
+    );
+
+    const response = await app.websocket.handleConnect(connectEvent("new"), {
+      sub: "u1",
+    });
+    assert.equal(response.statusCode, 200);
+    // old-2 and old-1 have the earliest timestamps
+    const evicted = disconnect.mock.calls.map((call) => call.arguments[1]);
+    assert.deepEqual(evicted, ["old-2", "old-1"]);
+    assert.deepEqual(
+      close.mock.calls.map((call) => call.arguments[0]),
+      ["old-2", "old-1"]
+    );
+  });
+
+  it("rejects connections over the global cap with a 429", async () => {
+    Object.assign(config.admission, { maxConnections: 5 });
+    stubUserConnections(0);
+    mock.method(admissionService, "acquireConnectionSlot", async () => false);
+
+    const response = await app.websocket.handleConnect(connectEvent("new"), {
+      sub: "u1",
+    });
+    assert.equal(response.statusCode, 429);
+  });
+
+  it("gives the slot back when the connection can't be stored", async () => {
+    Object.assign(config.admission, { maxConnections: 5 });
+    stubUserConnections(0);
+    mock.method(admissionService, "acquireConnectionSlot", async () => true);
+    const release = mock.method(
+      admissionService,
+      "releaseConnectionSlot",
+      async () => {}
+    );
+    mock.method(connectionService, "addConnection", async () => {
+      throw new Error("Failed to add connection");
+    });
+
+    const response = await app.websocket.handleConnect(connectEvent("new"), {
+      sub: "u1",
+    });
+    assert.equal(response.statusCode, 500);
+    assert.equal(release.mock.callCount(), 1);
+  });
+
+  it("stores the slot with the connection so closing releases it", async () => {
+    Object.assign(config.admission, { maxConnections: 5 });
+    stubUserConnections(0);
+    mock.method(admissionService, "acquireConnectionSlot", async () => true);
+    const add = mock.method(connectionService, "addConnection", async () => {});
+
+    await app.websocket.handleConnect(connectEvent("new"), { sub: "u1" });
+    assert.equal(add.mock.calls[0].arguments[1].holdsSlot, true);
+  });
+});
+
+describe("handleMessage rate limiting", () => {
+  const rateLimit = { ...config.rateLimit };
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    Object.assign(config.rateLimit, {
+      enabled: true,
+      store: "memory",
+      connection: { capacity: 2, refillPerSecond: 1 },
+    });
+    app = fastify();
+    app.register(webSocketPlugin);
+    await app.ready();
+
+    mock.method(connectionService, "getConnection", async () => ({
+      connectionId: "c1",
+      userId: "u1",
+    }));
+    mock.method(messageService, "sendToClient", async () => true);
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    Object.assign(config.rateLimit, rateLimit);
+    await app.close();
+  });
+
+  function messageEvent(body: string): APIGatewayProxyEvent {
+    return {
+      body,
+      requestContext: { connectionId: "c1", routeKey: "$default" },
+    } as unknown as APIGatewayProxyEvent;
+  }
+
+  it("counts malformed messages and unknown routes", async () => {
+    const statusCodes = [];
+    for (const body of ["{", '{"action":"missing"}', '{"action":"missing"}']) {
+      const response = await app.websocket.handleMessage(messageEvent(body));
+      statusCodes.push(response.statusCode);
+    }
+    assert.deepEqual(statusCodes, [400, 404, 429]);
+  });
+});
+
+describe("handleMessage validation", () => {
+  let app: FastifyInstance;
+  let sent: any[];
+
+  beforeEach(async () => {
+    app = fastify();
+    app.register(webSocketPlugin);
+    await app.ready();
+
+    sent = [];
+    mock.method(connectionService, "getConnection", async () => ({
+      connectionId: "c1",
+      userId: "u1",
+    }));
+    mock.method(
+      messageService,
+      "sendToClient",
+      async (_event: any, _connectionId: string, payload: any) => {
+        sent.push(payload);
+        return true;
+      }
+    );
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await app.close();
+  });
+
+  function messageEvent(body: string): APIGatewayProxyEvent {
+    return {
+      body,
+      requestContext: { connectionId: "c1", routeKey: "$default" },
+    } as unknown as APIGatewayProxyEvent;
+  }
+
+  it("rejects bodies that aren't JSON objects", async () => {
+    for (const body of ["null", "42", "[]", '"ping"']) {
+      const response = await app.websocket.handleMessage(messageEvent(body));
+      assert.equal(response.statusCode, 400);
+    }
+    assert.deepEqual(
+      sent.map((frame) => frame.errorCode),
+      Array(4).fill("VALIDATION_ERROR")
+    );
+  });
+
+  it("rejects actions that aren't strings", async () => {
+    for (const body of ["{}", '{"action":42}', '{"action":{"a":1}}']) {
+      const response = await app.websocket.handleMessage(messageEvent(body));
+      assert.equal(response.statusCode, 400);
+    }
+    assert.deepEqual(
+      sent.map((frame) => frame.errorCode),
+      Array(3).fill("VALIDATION_ERROR")
+    );
+  });
+
+  it("validates data against the route's schema", async () => {
+    const response = await app.websocket.handleMessage(
+      messageEvent('{"action":"session.join","data":{}}')
+    );
+    assert.equal(response.statusCode, 400);
+    assert.equal(sent[0].errorCode, "VALIDATION_ERROR");
+    assert.match(sent[0].error, /sessionId/);
+  });
+});
+
+describe("session.typing", () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = fastify();
+    app.register(webSocketPlugin);
+    await app.ready();
+
+    mock.method(connectionService, "getConnection", async () => ({
+      connectionId: "c1",
+      userId: "u1",
+    }));
+    mock.method(messageService, "sendToClient", async () => true);
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await app.close();
+  });
+
+  it("checks membership before claiming the typing signal", async () => {
+    mock.method(sessionService, "getMember", async (): Promise<null> => null);
+    const claim = mock.method(
+      connectionService,
+      "claimSignal",
+      async () => true
+    );
+
+    const response = await app.websocket.handleMessage({
+      body: JSON.stringify({
+        action: "session.typing",
+        data: { sessionId: "s1", typing: true },
+      }),
+      requestContext: { connectionId: "c1", routeKey: "$default" },
+    } as unknown as APIGatewayProxyEvent);
+    assert.equal(response.statusCode, 403);
+    assert.equal(claim.mock.callCount(), 0);
+  });
+});
@@ -1,9 +1,164 @@
 // plugins/webSocketPlugin.ts (Converted to AWS API Gateway WebSockets)
-import { FastifyInstance } from "fastify";
+import { FastifyBaseLogger, FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import AjvCompiler from "@fastify/ajv-compiler";
+import type { Ajv, ValidateFunction } from "ajv";
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { JwtPayload } from "jsonwebtoken";
 import { v4 as uuidv4 } from "uuid";
 import messageService from "../services/messageService";
 import connectionService from "../services/connectionService";
+import subscriptionService from "../services/subscriptionService";
+import sessionService from "../services/sessionService";
+import admissionService from "../services/admissionService";
+import presenceService, {
+  authorizePresence,
+  PresenceChange,
+  SelectableStatus,
+  presenceChannel,
+} from "../services/presenceService";
 import config from "../config/config";
+import { AppError, AuthError, RateLimitError } from "../utils/errorHandler";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+  createRateLimitStore,
+  createRateLimiter,
+} from "../services/rateLimitService";
+import { getTokenDeadline, validateRefreshToken } from "./auth";
+import {
+  Policy,
+  Principal,
+  RouteResource,
+  authorize,
+  authorizeChannel,
+  getPrincipal,
+} from "../middleware/authorization";
+
+/**
+ * Context passed to a registered WebSocket route handler
+ */
+export interface WebSocketRouteContext<T = any> {
+  event: APIGatewayProxyEvent;
+  connectionId: string;
+  // User stored with the connection on $connect
+  userId?: string;
+  // Roles and scopes of the user's token
+  principal?: Principal;
+  requestId: string;
+  action: string;
+  data: T;
+  correlationId?: string;
+  log: FastifyBaseLogger;
+}
+
+export type WebSocketRouteHandler<T = any> = (
+  context: WebSocketRouteContext<T>
+) => Promise<unknown> | unknown;
+
+/**
+ * Reply posted back for messages that carry a client-supplied `correlationId`.
+ * Mirrors the Socket.io ack callback used by `withErrorHandling`.
+ */
+export type WebSocketAck =
+  | { correlationId: string; ok: true; data: unknown }
+  | {
+      correlationId: string;
+      ok: false;
+      error: {
+        message: string;
+        errorCode: string;
+        status: number;
+        retryAfterMs?: number;
+      };
+    };
+
+interface WebSocketRoute {
+  handler: WebSocketRouteHandler;
+  validate?: ValidateFunction;
+  policy?: Policy<RouteResource>;
+}
+
+/**
+ * Handlers for the API Gateway WebSocket routes, exposed as `fastify.websocket`
+ */
+export interface WebSocketHandlers {
+  /**
+   * Register a handler for a route key or a message `action`
+   * @param action - The route key, or the `action` field of messages sent to $default
+   * @param schema - JSON schema for the message `data`, or null to skip validation
+   * @param handler - The route handler
+   * @param policy - Roles, scopes or predicate required to send the route
+   */
+  route<T = any>(
+    action: string,
+    schema: Record<string, any> | null,
+    handler: WebSocketRouteHandler<T>,
+    policy?: Policy<RouteResource>
+  ): void;
+  /**
+   * Throttle $connect attempts per source IP, before authentication
+   * @param event - API Gateway $connect event
+   * @returns A 429 response if the IP is over its limit, else undefined
+   */
+  throttleConnect(
+    event: APIGatewayProxyEvent
+  ): Promise<APIGatewayProxyResult | undefined>;
+  handleConnect(
+    event: APIGatewayProxyEvent,
+    user?: JwtPayload
+  ): Promise<APIGatewayProxyResult>;
+  handleDisconnect(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult>;
+  handleMessage(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult>;
+  /**
+   * Probe connections idle for longer than `idleMs` and remove the ones
+   * API Gateway no longer knows about, then reset expired presence
+   * @param idleMs - How long a connection must have been silent to be probed
+   */
+  reapIdleConnections(idleMs: number): Promise<ReapResult>;
+  /**
+   * Close the connections whose token has expired
+   * @returns The number of connections closed
+   */
+  expireConnections(): Promise<number>;
+}
+
+/**
+ * Outcome of a reaper run
+ */
+export interface ReapResult {
+  probed: number;
+  alive: number;
+  removed: number;
+  failed: number;
+  // Users whose expired presence was reset to offline
+  presenceReset: number;
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    websocket: WebSocketHandlers;
+  }
+}
+
+/**
+ * Get the user of an authenticated connection, for routes that need one
+ * @param userId - The userId from the route context
+ * @returns The user ID
+ * @throws AuthError if the connection has no user
+ */
+export function requireUserId(userId?: string): string {
+  if (!userId) {
+    throw new AuthError("Connection is not authenticated", "UNAUTHORIZED");
+  }
+  return userId;
+}
+
+/**
+ * Whether a parsed JSON value is an object, rather than null, an array or a primitive
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
 /**
  * WebSocket plugin for Fastify with API Gateway integration
@@ -11,16 +166,232 @@ import config from "../config/config";
  *
  * @param fastify - Fastify instance
  */
-export default async function socketPlugin(fastify: FastifyInstance) {
-  // Decorate Fastify with WebSocket handler methods
-  fastify.decorate("websocket", {
+async function webSocketPlugin(fastify: FastifyInstance) {
+  const routes = new Map<string, WebSocketRoute>();
+  const rateLimitStore = createRateLimitStore();
+  const rateLimiter = createRateLimiter(rateLimitStore);
+
+  // Ajv with @fastify/ajv-compiler's defaults and formats and the shared
+  // schemas, like Fastify's HTTP validation when fastify() gets no `ajv`
+  // option. Fastify doesn't expose that option, so an app that sets it must
+  // pass the same customOptions and plugins here. Created with the first
+  // route schema.
+  let ajv: Ajv | undefined;
+
+  function compileSchema(schema: Record<string, any>): ValidateFunction {
+    if (!ajv) {
+      AjvCompiler()(fastify.getSchemas(), {
+        customOptions: {},
+        plugins: [],
+        onCreate: (instance) => {
+          ajv = instance;
+        },
+      });
+    }
+    return ajv.compile(schema);
+  }
+
+  /**
+   * Post an error back to the client, as a failed ack when the message
+   * carried a correlationId and as a structured error frame otherwise
+   */
+  async function sendError(
+    event: APIGatewayProxyEvent | null,
+    connectionId: string,
+    error: AppError,
+    action?: string,
+    correlationId?: string
+  ) {
+    // Rate limit errors tell the client when to retry
+    const retryAfterMs =
+      error instanceof RateLimitError ? error.retryAfterMs : undefined;
+
+    if (correlationId) {
+      const ack: WebSocketAck = {
+        correlationId,
+        ok: false,
+        error: {
+          message: error.message,
+          errorCode: error.errorCode,
+          status: error.statusCode,
+          ...(retryAfterMs !== undefined && { retryAfterMs }),
+        },
+      };
+      await messageService.sendToClient(event, connectionId, ack);
+      return;
+    }
+
+    await messageService.sendToClient(event, connectionId, {
+      type: "error",
+      ...(action && { action }),
+      error: error.message,
+      errorCode: error.errorCode,
+      status: error.statusCode,
+      ...(retryAfterMs !== undefined && { retryAfterMs }),
+      connectionId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Send a presence change to the connections subscribed to the user.
+   * Presence is best-effort, so failures are logged rather than failing
+   * the connect/disconnect that caused them.
+   */
+  async function publishPresence(
+    event: APIGatewayProxyEvent | null,
+    change: PresenceChange | null,
+    log: FastifyBaseLogger
+  ) {
+    if (!change) {
+      return;
+    }
+    try {
+      await messageService.publishPresence(event, change);
+    } catch (error) {
+      log.error({ error, userId: change.userId }, "Failed to publish presence");
+    }
+  }
+
+  /**
+   * Remove a closed connection along with its subscriptions, and mark the
+   * user offline if it was their last connection
+   * @param event - The API Gateway event, or null outside of a WebSocket event
+   */
+  async function removeConnection(
+    event: APIGatewayProxyEvent | null,
+    connectionId: string,
+    log: FastifyBaseLogger
+  ) {
+    await publishPresence(
+      event,
+      await connectionService.closeConnection(connectionId),
+      log
+    );
+  }
+
+  /**
+   * Keep a live connection's user counted as online
+   * @param event - The API Gateway event, or null outside of a WebSocket event
+   */
+  async function refreshPresence(
+    event: APIGatewayProxyEvent | null,
+    userId: string | undefined,
+    log: FastifyBaseLogger
+  ) {
+    if (!userId) {
+      return;
+    }
+    try {
+      await publishPresence(event, await presenceService.touch(userId), log);
+    } catch (error) {
+      log.error({ error, userId }, "Failed to refresh presence");
+    }
+  }
+
+  /**
+   * Tell the client its token expired and close the connection
+   * @param event - The API Gateway event, or null outside of a WebSocket event
+   */
+  async function expireConnection(
+    event: APIGatewayProxyEvent | null,
+    connectionId: string,
+    log: FastifyBaseLogger
+  ) {
+    log.info({ connectionId }, "Closing connection with an expired token");
+    await sendError(
+      event,
+      connectionId,
+      new AuthError(
+        "Your session has expired. Please reconnect.",
+        "TOKEN_EXPIRED",
+        connectionId
+      )
+    );
+    await messageService.disconnectConnection(event, connectionId);
+  }
+
+  /**
+   * Make room for a new connection of a user at their connection limit by
+   * closing their oldest connections
+   * @param connections - The user's open connections
+   */
+  async function evictOldestConnections(
+    event: APIGatewayProxyEvent,
+    connections: Record<string, any>[],
+    log: FastifyBaseLogger
+  ) {
+    const evicted = [...connections]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(
+        0,
+        connections.length - config.admission.maxConnectionsPerUser + 1
+      );
+
+    for (const { connectionId } of evicted) {
+      log.info({ evictedConnectionId: connectionId }, "Evicting connection");
+      await sendError(
+        event,
+        connectionId,
+        new AppError(
+          "Too many connections. This connection was replaced by a newer one.",
+          409,
+          "CONNECTION_EVICTED",
+          connectionId
+        )
+      );
+      await messageService.disconnectConnection(event, connectionId);
+      // Also covers connections that were already gone
+      await removeConnection(event, connectionId, log);
+    }
+  }
+
+  const websocket: WebSocketHandlers = {
+    route(action, schema, handler, policy) {
+      if (routes.has(action)) {
+        throw new Error(`WebSocket route "${action}" is already registered`);
+      }
+
+      routes.set(action, {
+        handler,
+        ...(schema && { validate: compileSchema(schema) }),
+        ...(policy && { policy }),
+      });
+    },
+
+    async throttleConnect(event) {
+      const sourceIp = event.requestContext.identity?.sourceIp;
+      if (!sourceIp) {
+        return undefined;
+      }
+
+      const { allowed, retryAfterMs } = await rateLimitStore.consume(
+        `connect:${sourceIp}`,
+        config.admission.connectRate
+      );
+      if (allowed) {
+        return undefined;
+      }
+
+      fastify.log.warn(
+        { sourceIp, event: "socket_connect_throttled" },
+        "Too many connection attempts"
+      );
+      return {
+        statusCode: 429,
+        headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) },
+        body: "Too many connection attempts",
+      };
+    },
+
     /**
      * Handle WebSocket connection event
      * @param event - API Gateway WebSocket event
+     * @param user - Token payload of the user authenticated on $connect
      */
-    async handleConnect(event: any) {
+    async handleConnect(event, user) {
       const connectionId = event.requestContext.connectionId;
-      const requestId = event.headers["x-request-id"] || uuidv4();
+      const requestId = event.headers?.["x-request-id"] || uuidv4();
 
       // Create a logger with connection context
       const log = fastify.log.child({
@@ -29,18 +400,74 @@ export default async function socketPlugin(fastify: FastifyInstance) {
         event: "socket_connect",
       });
 
+      const { maxConnectionsPerUser, userLimitMode, maxConnections } =
+        config.admission;
+      let holdsSlot = false;
+      let stored = false;
+
       try {
-        // In a real implementation, you would validate auth here
-        // For now, just store the connection
+        // Per-user limit, checked against the user's stored connections
+        if (user?.sub && maxConnectionsPerUser > 0) {
+          const connections = await connectionService.getConnectionsForUser(
+            user.sub
+          );
+          if (connections.length >= maxConnectionsPerUser) {
+            if (userLimitMode !== "evict") {
+              log.warn(
+                { userId: user.sub, connections: connections.length },
+                "Connection limit reached for user"
+              );
+              return { statusCode: 403, body: "Too many connections" };
+            }
+            await evictOldestConnections(event, connections, log);
+          }
+        }
+
+        // Global cap across the stage
+        if (maxConnections > 0) {
+          holdsSlot = await admissionService.acquireConnectionSlot(
+            maxConnections
+          );
+          if (!holdsSlot) {
+            log.warn({ maxConnections }, "Connection cap reached");
+            return { statusCode: 429, body: "Too many connections" };
+          }
+        }
+
+        // Store the connection along with the authenticated user and the
+        // claims authorization policies are checked against
+        const tokenExpiresAt = user && getTokenDeadline(user);
         await connectionService.addConnection(connectionId, {
           requestId,
-          // You would add user info here after auth
+          ...(user && { userId: user.sub, claims: user }),
+          ...(tokenExpiresAt && { tokenExpiresAt }),
+          ...(holdsSlot && { holdsSlot }),
         });
+        stored = true;
+
+        if (user?.sub) {
+          await publishPresence(
+            event,
+            await presenceService.connect(user.sub),
+            log
+          );
+        }
 
-        log.info("WebSocket connection established");
+        log.info({ userId: user?.sub }, "WebSocket connection established");
         return { statusCode: 200, body: "Connected" };
       } catch (error) {
         log.error({ error }, "Failed to handle WebSocket connection");
+        // Stored connections give their slot back when they are removed
+        if (holdsSlot && !stored) {
+          await admissionService
+            .releaseConnectionSlot()
+            .catch((releaseError) =>
+              log.error(
+                { error: releaseError },
+                "Failed to release connection slot"
+              )
+            );
+        }
         return { statusCode: 500, body: "Connection failed" };
       }
     },
@@ -49,7 +476,7 @@ export default async function socketPlugin(fastify: FastifyInstance) {
      * Handle WebSocket disconnect event
      * @param event - API Gateway WebSocket event
      */
-    async handleDisconnect(event: any) {
+    async handleDisconnect(event) {
       const connectionId = event.requestContext.connectionId;
 
       const log = fastify.log.child({
@@ -58,7 +485,7 @@ export default async function socketPlugin(fastify: FastifyInstance) {
       });
 
       try {
-        await connectionService.removeConnection(connectionId);
+        await removeConnection(event, connectionId, log);
         log.info("WebSocket connection closed");
         return { statusCode: 200, body: "Disconnected" };
       } catch (error) {
@@ -71,9 +498,10 @@ export default async function socketPlugin(fastify: FastifyInstance) {
      * Handle incoming WebSocket messages
      * @param event - API Gateway WebSocket event
      */
-    async handleMessage(event: any) {
+    async handleMessage(event) {
       const connectionId = event.requestContext.connectionId;
-      const requestId = event.headers["x-request-id"] || uuidv4();
+      // Message events carry no headers, only $connect does
+      const requestId = event.headers?.["x-request-id"] || uuidv4();
 
       // Create a logger with message context
       const log = fastify.log.child({
@@ -82,40 +510,879 @@ export default async function socketPlugin(fastify: FastifyInstance) {
         event: "socket_message",
       });
 
+      // Stays undefined for malformed JSON, which can't parse to undefined
+      let body: any;
       try {
         // Parse the message body
-        const body = JSON.parse(event.body);
-        const routeKey = event.requestContext.routeKey;
+        body = JSON.parse(event.body || "{}");
+      } catch (error) {
+        log.warn("Received malformed WebSocket message");
+      }
 
-        log.info({ body, routeKey }, "Received WebSocket message");
+      // Custom route keys map directly; $default falls back to the body's action
+      const routeKey = event.requestContext.routeKey;
+      const action = routeKey !== "$default" ? routeKey : body?.action;
+      const correlationId =
+        typeof body?.correlationId === "string"
+          ? body.correlationId
+          : undefined;
 
-        // Handle custom event (equivalent to socket.on("customEvent"))
-        if (routeKey === "customEvent") {
-          // Generate a session ID for this conversation
-          const sessionId = uuidv4();
+      // The body isn't logged: it may carry credentials, e.g. auth.refresh tokens
+      log.info(
+        { routeKey, action, correlationId },
+        "Received WebSocket message"
+      );
 
-          // Process the message
-          const response = {
-            message: "Hello from WebSocket!",
-            requestId,
-          };
+      try {
+        const connection = await connectionService.getConnection(connectionId);
+
+        // Once the token has expired, only a token refresh is accepted
+        if (
+          connection?.tokenExpiresAt <= Date.now() &&
+          action !== "auth.refresh"
+        ) {
+          await expireConnection(event, connectionId, log);
+          return { statusCode: 401, body: "Token expired" };
+        }
+
+        // Every message is counted, including malformed ones and those for
+        // unknown routes or with invalid data
+        const rejection = await rateLimiter.check(
+          { connectionId, userId: connection?.userId },
+          typeof action === "string" ? action : routeKey
+        );
+        if (rejection) {
+          log.warn(
+            { action, disconnect: rejection.disconnect },
+            "Rate limit exceeded"
+          );
+          await sendError(
+            event,
+            connectionId,
+            rejection.error,
+            action,
+            correlationId
+          );
+          // Clients that keep ignoring the retry-after hint are dropped
+          if (rejection.disconnect) {
+            await messageService.disconnectConnection(event, connectionId);
+          }
+          return { statusCode: 429, body: "Too many messages" };
+        }
 
-          // Send a response back to the client
-          await messageService.persistAndSendMessage(
+        if (body === undefined) {
+          await sendError(
             event,
             connectionId,
-            JSON.stringify(response),
-            sessionId
+            new AppError("Message body must be valid JSON", 400, "INVALID_JSON")
           );
+          return { statusCode: 400, body: "Invalid message body" };
+        }
+        if (!isPlainObject(body)) {
+          await sendError(
+            event,
+            connectionId,
+            new AppError(
+              "Message body must be a JSON object",
+              400,
+              "VALIDATION_ERROR"
+            )
+          );
+          return { statusCode: 400, body: "Invalid message body" };
+        }
+        if (typeof action !== "string") {
+          await sendError(
+            event,
+            connectionId,
+            new AppError(
+              "Message action must be a string",
+              400,
+              "VALIDATION_ERROR"
+            ),
+            undefined,
+            correlationId
+          );
+          return { statusCode: 400, body: "Invalid message action" };
+        }
+
+        const route = routes.get(action);
+        if (!route) {
+          await sendError(
+            event,
+            connectionId,
+            new AppError(
+              `No handler registered for action "${action}"`,
+              404,
+              "ROUTE_NOT_FOUND"
+            ),
+            action,
+            correlationId
+          );
+          return { statusCode: 404, body: "Route not found" };
+        }
+
+        const data = body.data ?? {};
+        if (route.validate && !route.validate(data)) {
+          const details = (route.validate.errors || [])
+            .map((e) => `data${e.instancePath} ${e.message}`)
+            .join(", ");
+          await sendError(
+            event,
+            connectionId,
+            new AppError(
+              `Invalid message data: ${details}`,
+              400,
+              "VALIDATION_ERROR"
+            ),
+            action,
+            correlationId
+          );
+          return { statusCode: 400, body: "Invalid message data" };
+        }
+
+        const principal = getPrincipal(connection?.userData?.claims);
+        await authorize(
+          principal,
+          route.policy,
+          { action, data },
+          `send "${action}"`,
+          connectionId
+        );
+
+        const result = await route.handler({
+          event,
+          connectionId,
+          userId: connection?.userId,
+          principal,
+          requestId,
+          action,
+          data,
+          correlationId,
+          log,
+        });
+
+        // Acknowledge with the handler result when the client asked for a reply
+        if (correlationId) {
+          const ack: WebSocketAck = {
+            correlationId,
+            ok: true,
+            data: result ?? null,
+          };
+          await messageService.sendToClient(event, connectionId, ack);
         }
 
         return { statusCode: 200, body: "Message received" };
       } catch (error) {
-        log.error({ error }, "Failed to handle WebSocket message");
-        return { statusCode: 500, body: "Message handling failed" };
+        log.error({ error, action }, "Failed to handle WebSocket message");
+
+        const appError =
+          error instanceof AppError
+            ? error
+            : new AppError(
+                error.message || "An unexpected error occurred",
+                500,
+                "INTERNAL_SERVER_ERROR",
+                connectionId
+              );
+        await sendError(event, connectionId, appError, action, correlationId);
+
+        return {
+          statusCode: appError.statusCode,
+          body: "Message handling failed",
+        };
       }
     },
-  });
+
+    /**
+     * Remove connections that closed without a $disconnect (or missed it).
+     * Connections API Gateway still reports as open get their TTL and their
+     * user's presence extended.
+     * @param idleMs - How long a connection must have been silent to be probed
+     */
+    async reapIdleConnections(idleMs) {
+      const log = fastify.log.child({ event: "connection_reaper" });
+      const result: ReapResult = {
+        probed: 0,
+        alive: 0,
+        removed: 0,
+        failed: 0,
+        presenceReset: 0,
+      };
+
+      const connections = await connectionService.getIdleConnections(
+        Date.now() - idleMs
+      );
+
+      await mapWithConcurrency(
+        connections,
+        config.websocket.broadcastConcurrency,
+        async ({ connectionId, userId }) => {
+          result.probed++;
+          try {
+            const lastActiveAt = await messageService.probeConnection(
+              null,
+              connectionId
+            );
+            if (lastActiveAt) {
+              await connectionService.touchConnection(
+                connectionId,
+                lastActiveAt.getTime()
+              );
+              await refreshPresence(null, userId, log);
+              result.alive++;
+            } else {
+              await removeConnection(null, connectionId, log);
+              result.removed++;
+            }
+          } catch (error) {
+            log.error({ error, connectionId }, "Failed to probe connection");
+            result.failed++;
+          }
+        }
+      );
+
+      // Counts no connection kept alive, e.g. from a crashed Socket.io process
+      try {
+        const changes = await presenceService.resetExpired();
+        for (const change of changes) {
+          await publishPresence(null, change, log);
+        }
+        result.presenceReset = changes.length;
+      } catch (error) {
+        log.error({ error }, "Failed to reset expired presence");
+      }
+
+      log.info(result, "Reaped idle connections");
+      return result;
+    },
+
+    /**
+     * Close the connections whose token expired without being refreshed
+     */
+    async expireConnections() {
+      const log = fastify.log.child({ event: "connection_expiry" });
+      const connections = await connectionService.getExpiredConnections();
+
+      const closed = await mapWithConcurrency(
+        connections,
+        config.websocket.broadcastConcurrency,
+        async ({ connectionId }) => {
+          try {
+            await expireConnection(null, connectionId, log);
+            return true;
+          } catch (error) {
+            log.error({ error, connectionId }, "Failed to close connection");
+            return false;
+          }
+        }
+      );
+
+      return closed.filter(Boolean).length;
+    },
+  };
+
+  // Decorate Fastify with WebSocket handler methods
+  fastify.decorate("websocket", websocket);
+
+  // Handle custom event (equivalent to socket.on("customEvent"))
+  websocket.route<{ sessionId: string }>(
+    "customEvent",
+    {
+      type: "object",
+      required: ["sessionId"],
+      properties: { sessionId: { type: "string", minLength: 1 } },
+    },
+    async ({ event, connectionId, userId, requestId, data }) => {
+      // Messages belong to an existing conversation the user is part of
+      await sessionService.assertMember(data.sessionId, requireUserId(userId));
+
+      // Process the message
+      const response = {
+        message: "Hello from WebSocket!",
+        requestId,
+      };
+
+      // Send a response back to the client
+      await messageService.persistAndSendMessage(
+        event,
+        connectionId,
+        JSON.stringify(response),
+        data.sessionId
+      );
+    }
+  );
+
+  // Keep the connection authenticated with a new token before the current
+  // one expires
+  websocket.route<{ token: string }>(
+    "auth.refresh",
+    {
+      type: "object",
+      required: ["token"],
+      properties: { token: { type: "string", minLength: 1 } },
+    },
+    async ({ connectionId, userId, data, log }) => {
+      const user = await validateRefreshToken(
+        data.token,
+        requireUserId(userId)
+      );
+      const expiresAt = getTokenDeadline(user);
+      await connectionService.updateTokenExpiry(connectionId, expiresAt, user);
+
+      log.info({ expiresAt }, "Refreshed connection token");
+      return { expiresAt: expiresAt ?? null };
+    }
+  );
+
+  // Application-level heartbeat. Keeps the connection's lastSeen, TTL and
+  // presence fresh; the pong comes back as the ack when a correlationId is sent.
+  websocket.route(
+    "ping",
+    null,
+    async ({ event, connectionId, userId, correlationId, log }) => {
+      await connectionService.touchConnection(connectionId);
+      await refreshPresence(event, userId, log);
+
+      const pong = { type: "pong", timestamp: Date.now() };
+      if (!correlationId) {
+        await messageService.sendToClient(event, connectionId, pong);
+      }
+      return pong;
+    }
+  );
+
+  const channelSchema = {
+    type: "object",
+    required: ["channel"],
+    properties: {
+      channel: { type: "string", minLength: 1, maxLength: 128 },
+    },
+  };
+
+  // Join a channel (equivalent to socket.join(room))
+  websocket.route<{ channel: string }>(
+    "channel.join",
+    channelSchema,
+    async ({ connectionId, userId, principal, data, log }) => {
+      await authorizeChannel(principal, data.channel, connectionId);
+      await subscriptionService.subscribe(data.channel, connectionId, userId);
+
+      log.info({ channel: data.channel }, "Joined channel");
+      return { channel: data.channel };
+    }
+  );
+
+  // Leave a channel (equivalent to socket.leave(room))
+  websocket.route<{ channel: string }>(
+    "channel.leave",
+    channelSchema,
+    async ({ connectionId, data, log }) => {
+      await subscriptionService.unsubscribe(data.channel, connectionId);
+
+      log.info({ channel: data.channel }, "Left channel");
+      return { channel: data.channel };
+    }
+  );
+
+  // Deliver messages queued while the user was offline. API Gateway rejects
+  // posts to a connection until $connect has returned, so clients call this
+  // right after the socket opens.
+  websocket.route(
+    "messages.sync",
+    null,
+    async ({ event, connectionId, userId, log }) => {
+      const flushed = await messageService.flushUndelivered(
+        event,
+        connectionId,
+        requireUserId(userId)
+      );
+
+      log.info({ flushed }, "Flushed undelivered messages");
+      return { flushed };
+    }
+  );
+
+  // Acknowledge receipt of delivered messages
+  websocket.route<{ messageIds: string[] }>(
+    "messages.ack",
+    {
+      type: "object",
+      required: ["messageIds"],
+      properties: {
+        messageIds: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          minItems: 1,
+          maxItems: 100,
+        },
+      },
+    },
+    async ({ userId, data }) => {
+      const acknowledged = await messageService.acknowledgeMessages(
+        requireUserId(userId),
+        data.messageIds
+      );
+      return { acknowledged };
+    }
+  );
+
+  const sessionIdSchema = { type: "string", minLength: 1 };
+  const pageSchema = {
+    limit: { type: "integer", minimum: 1, maximum: 100 },
+    cursor: { type: "string", minLength: 1 },
+  };
+
+  // Start a conversation with the current user as a member, inviting others
+  websocket.route<{ name?: string; memberIds?: string[] }>(
+    "session.create",
+    {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, maxLength: 128 },
+        memberIds: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          maxItems: 50,
+        },
+      },
+    },
+    async ({ userId, data, log }) => {
+      const session = await sessionService.createSession(
+        requireUserId(userId),
+        data.name,
+        data.memberIds
+      );
+
+      log.info({ sessionId: session.sessionId }, "Created session");
+      return session;
+    }
+  );
+
+  // Invite users to a conversation the current user is a member of
+  websocket.route<{ sessionId: string; userIds: string[] }>(
+    "session.invite",
+    {
+      type: "object",
+      required: ["sessionId", "userIds"],
+      properties: {
+        sessionId: sessionIdSchema,
+        userIds: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          minItems: 1,
+          maxItems: 50,
+        },
+      },
+    },
+    async ({ userId, data, log }) => {
+      await sessionService.inviteToSession(
+        data.sessionId,
+        requireUserId(userId),
+        data.userIds
+      );
+
+      log.info(
+        { sessionId: data.sessionId, invited: data.userIds.length },
+        "Invited users to session"
+      );
+      return { sessionId: data.sessionId, userIds: data.userIds };
+    }
+  );
+
+  // Join a conversation the current user created or was invited to
+  websocket.route<{ sessionId: string }>(
+    "session.join",
+    {
+      type: "object",
+      required: ["sessionId"],
+      properties: { sessionId: sessionIdSchema },
+    },
+    async ({ userId, data }) => {
+      return await sessionService.joinSession(
+        data.sessionId,
+        requireUserId(userId)
+      );
+    }
+  );
+
+  // Leave a conversation
+  websocket.route<{ sessionId: string }>(
+    "session.leave",
+    {
+      type: "object",
+      required: ["sessionId"],
+      properties: { sessionId: sessionIdSchema },
+    },
+    async ({ userId, data }) => {
+      await sessionService.leaveSession(data.sessionId, requireUserId(userId));
+      return { sessionId: data.sessionId };
+    }
+  );
+
+  // List the current user's conversations, most recently joined first
+  websocket.route<{ limit?: number; cursor?: string }>(
+    "session.list",
+    { type: "object", properties: pageSchema },
+    async ({ userId, data }) => {
+      return await sessionService.listUserSessions(
+        requireUserId(userId),
+        data.limit,
+        data.cursor
+      );
+    }
+  );
+
+  // Load a page of conversation history. Messages within a page are in
+  // chronological order; `nextCursor` leads to older messages.
+  websocket.route<{ sessionId: string; limit?: number; cursor?: string }>(
+    "session.history",
+    {
+      type: "object",
+      required: ["sessionId"],
+      properties: { sessionId: sessionIdSchema, ...pageSchema },
+    },
+    async ({ userId, data }) => {
+      await sessionService.assertMember(data.sessionId, requireUserId(userId));
+
+      return await messageService.getSessionMessages(
+        data.sessionId,
+        data.limit,
+        data.cursor
+      );
+    }
+  );
+
+  // Send a message to every member of a conversation
+  websocket.route<{
+    sessionId: string;
+    content: string;
+    metadata?: Record<string, any>;
+  }>(
+    "session.send",
+    {
+      type: "object",
+      required: ["sessionId", "content"],
+      properties: {
+        sessionId: sessionIdSchema,
+        content: { type: "string", minLength: 1, maxLength: 32768 },
+        metadata: { type: "object" },
+      },
+    },
+    async ({ event, connectionId, userId, data }) => {
+      const { message, delivery } = await messageService.sendToSession(
+        event,
+        connectionId,
+        requireUserId(userId),
+        data.sessionId,
+        data.content,
+        data.metadata
+      );
+
+      return {
+        messageId: message.id,
+        timestamp: message.timestamp,
+        delivered: delivery.delivered,
+        failed: delivery.failed,
+      };
+    }
+  );
+
+  // Ephemeral "user is typing" signal. Start signals are throttled per
+  // connection and dropped when sent too often; stop signals always go out.
+  websocket.route<{ sessionId: string; typing: boolean }>(
+    "session.typing",
+    {
+      type: "object",
+      required: ["sessionId", "typing"],
+      properties: { sessionId: sessionIdSchema, typing: { type: "boolean" } },
+    },
+    async ({ event, connectionId, userId, data }) => {
+      const user = requireUserId(userId);
+      // Checked first, so non-members can't use up the connection's throttle
+      await sessionService.assertMember(data.sessionId, user);
+
+      if (
+        data.typing &&
+        !(await connectionService.claimSignal(
+          connectionId,
+          "typing",
+          config.websocket.signalThrottleMs
+        ))
+      ) {
+        return { sent: false };
+      }
+
+      await messageService.broadcastToSession(
+        event,
+        data.sessionId,
+        {
+          type: "session.typing",
+          sessionId: data.sessionId,
+          userId: user,
+          typing: data.typing,
+        },
+        connectionId
+      );
+      return { sent: true };
+    }
+  );
+
+  // Read receipt: the user has read the session up to a message. The receipt
+  // is always stored; fanning it out to other members is throttled.
+  websocket.route<{ sessionId: string; messageId: string }>(
+    "session.read",
+    {
+      type: "object",
+      required: ["sessionId", "messageId"],
+      properties: { sessionId: sessionIdSchema, messageId: sessionIdSchema },
+    },
+    async ({ event, connectionId, userId, data }) => {
+      const user = requireUserId(userId);
+
+      const message = await messageService.getMessage(data.messageId);
+      if (message.sessionId !== data.sessionId) {
+        throw new AppError("Message not found", 404, "MESSAGE_NOT_FOUND");
+      }
+
+      const member = await sessionService.markRead(
+        data.sessionId,
+        user,
+        message.id,
+        message.timestamp
+      );
+      if (!member) {
+        // A newer receipt is already stored
+        return { updated: false };
+      }
+
+      if (
+        await connectionService.claimSignal(
+          connectionId,
+          "read",
+          config.websocket.signalThrottleMs
+        )
+      ) {
+        await messageService.broadcastToSession(
+          event,
+          data.sessionId,
+          {
+            type: "session.read",
+            sessionId: data.sessionId,
+            userId: user,
+            messageId: member.lastReadMessageId,
+            readAt: member.lastReadAt,
+          },
+          connectionId
+        );
+      }
+      return {
+        updated: true,
+        lastReadMessageId: member.lastReadMessageId,
+        lastReadAt: member.lastReadAt,
+      };
+    }
+  );
+
+  // Unread counts and read receipts for the user's sessions, e.g. on reconnect
+  websocket.route<{ sessionIds: string[] }>(
+    "session.unread",
+    {
+      type: "object",
+      required: ["sessionIds"],
+      properties: {
+        sessionIds: {
+          type: "array",
+          items: sessionIdSchema,
+          minItems: 1,
+          maxItems: 50,
+        },
+      },
+    },
+    async ({ userId, data }) => {
+      const user = requireUserId(userId);
+
+      return await Promise.all(
+        data.sessionIds.map(async (sessionId) => {
+          const member = await sessionService.assertMember(sessionId, user);
+
+          return {
+            sessionId,
+            unreadCount: await messageService.getUnreadCount(
+              sessionId,
+              user,
+              member.lastReadTimestamp
+            ),
+            ...(member.lastReadMessageId && {
+              lastReadMessageId: member.lastReadMessageId,
+              lastReadAt: member.lastReadAt,
+            }),
+          };
+        })
+      );
+    }
+  );
+
+  const messageIdSchema = { type: "string", minLength: 1 };
+  const versionSchema = { type: "integer", minimum: 1 };
+
+  // Edit one of the user's own messages
+  websocket.route<{
+    messageId: string;
+    content: string;
+    expectedVersion?: number;
+  }>(
+    "message.edit",
+    {
+      type: "object",
+      required: ["messageId", "content"],
+      properties: {
+        messageId: messageIdSchema,
+        content: { type: "string", minLength: 1, maxLength: 32768 },
+        expectedVersion: versionSchema,
+      },
+    },
+    async ({ event, userId, data }) => {
+      const message = await messageService.editMessage(
+        event,
+        requireUserId(userId),
+        data.messageId,
+        data.content,
+        data.expectedVersion
+      );
+      return { messageId: message.id, version: message.version };
+    }
+  );
+
+  // Soft-delete one of the user's own messages
+  websocket.route<{ messageId: string; expectedVersion?: number }>(
+    "message.delete",
+    {
+      type: "object",
+      required: ["messageId"],
+      properties: {
+        messageId: messageIdSchema,
+        expectedVersion: versionSchema,
+      },
+    },
+    async ({ event, userId, data }) => {
+      const message = await messageService.deleteMessage(
+        event,
+        requireUserId(userId),
+        data.messageId,
+        data.expectedVersion
+      );
+      return { messageId: message.id, version: message.version };
+    }
+  );
+
+  const reactionSchema = {
+    type: "object",
+    required: ["messageId", "emoji"],
+    properties: {
+      messageId: messageIdSchema,
+      emoji: { type: "string", minLength: 1, maxLength: 32 },
+    },
+  };
+
+  // Add a reaction to a message in one of the user's sessions
+  websocket.route<{ messageId: string; emoji: string }>(
+    "message.react",
+    reactionSchema,
+    async ({ event, userId, data }) => {
+      const message = await messageService.reactToMessage(
+        event,
+        requireUserId(userId),
+        data.messageId,
+        data.emoji
+      );
+      return { messageId: message.id, reactions: message.reactions ?? {} };
+    }
+  );
+
+  // Remove the user's reaction from a message
+  websocket.route<{ messageId: string; emoji: string }>(
+    "message.unreact",
+    reactionSchema,
+    async ({ event, userId, data }) => {
+      const message = await messageService.reactToMessage(
+        event,
+        requireUserId(userId),
+        data.messageId,
+        data.emoji,
+        true
+      );
+      return { messageId: message.id, reactions: message.reactions ?? {} };
+    }
+  );
+
+  const presenceUsersSchema = {
+    type: "object",
+    required: ["userIds"],
+    properties: {
+      userIds: {
+        type: "array",
+        items: { type: "string", minLength: 1 },
+        minItems: 1,
+        maxItems: 100,
+      },
+    },
+  };
+
+  // Receive presence changes of some users, starting with their current status
+  websocket.route<{ userIds: string[] }>(
+    "presence.subscribe",
+    presenceUsersSchema,
+    async ({ connectionId, userId, principal, data }) => {
+      await authorizePresence(principal, data.userIds, connectionId);
+      await Promise.all(
+        data.userIds.map((subscribedUserId) =>
+          subscriptionService.subscribe(
+            presenceChannel(subscribedUserId),
+            connectionId,
+            userId
+          )
+        )
+      );
+      return await presenceService.getPresence(data.userIds);
+    }
+  );
+
+  // Stop receiving presence changes of some users
+  websocket.route<{ userIds: string[] }>(
+    "presence.unsubscribe",
+    presenceUsersSchema,
+    async ({ connectionId, data }) => {
+      await Promise.all(
+        data.userIds.map((subscribedUserId) =>
+          subscriptionService.unsubscribe(
+            presenceChannel(subscribedUserId),
+            connectionId
+          )
+        )
+      );
+      return { userIds: data.userIds };
+    }
+  );
+
+  // Set the user's status to away/dnd, or back to online
+  websocket.route<{ status: SelectableStatus }>(
+    "presence.set",
+    {
+      type: "object",
+      required: ["status"],
+      properties: {
+        status: { type: "string", enum: ["online", "away", "dnd"] },
+      },
+    },
+    async ({ event, userId, data, log }) => {
+      const change = await presenceService.setStatus(
+        requireUserId(userId),
+        data.status
+      );
+      await publishPresence(event, change, log);
+      return { status: data.status };
+    }
+  );
 
   // Register a hook to clean up on server shutdown
   fastify.addHook("onClose", (instance, done) => {
@@ -123,3 +1390,6 @@ export default async function socketPlugin(fastify: FastifyInstance) {
     done();
   });
 }
+
+// Break encapsulation so `fastify.websocket` is available to the Lambda entry point
+export default fp(webSocketPlugin, { name: "webSocketPlugin" });
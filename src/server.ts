@@ -3,10 +3,11 @@ import fastify, { FastifyInstance } from "fastify";
 import config from "./config/config";
 import fastifyCookie from "@fastify/cookie";
 import fastifyHelmet from "@fastify/helmet";
-import socketPlugin from "./plugins/webSocketPlugin"; // Ensure this points to the correct plugin file
+import socketPlugin from "./plugins/socketPlugin";
 import { v4 as uuidv4 } from "uuid";
 import sentryMonitoring from "./plugins/sentryMonitoringPlugin";
 import errorHandlerPlugin from "./plugins/errorHandlerPlugin";
+import presencePlugin from "./plugins/presencePlugin";
 
 /**
  * Fastify WebSocket Application
@@ -76,9 +77,12 @@ class WebSocketApplication {
       },
     });
 
-    // Register WebSocket plugin
+    // Register the Socket.io plugin; the error handler needs its `fastify.io`
     this.server.register(socketPlugin);
     this.server.register(errorHandlerPlugin);
+
+    // Register the presence lookup routes
+    this.server.register(presencePlugin);
   }
 
   /**
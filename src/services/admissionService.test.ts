@@ -0,0 +1,95 @@
+// services/admissionService.test.ts
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dynamoDbClient from "./dynamoDbClient";
+import admissionService from "./admissionService";
+import connectionService from "./connectionService";
+import subscriptionService from "./subscriptionService";
+import presenceService from "./presenceService";
+
+function conditionalCheckFailed() {
+  return Object.assign(new Error("The conditional request failed"), {
+    name: "ConditionalCheckFailedException",
+  });
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("admissionService", () => {
+  it("takes a slot while the count is under the cap", async () => {
+    const updateItem = mock.method(dynamoDbClient, "updateItem", async () => ({
+      count: 1,
+    }));
+
+    assert.equal(await admissionService.acquireConnectionSlot(10), true);
+    const [, , expression, values] = updateItem.mock.calls[0].arguments;
+    assert.equal(expression, "ADD #count :one");
+    assert.deepEqual(values, { ":one": 1, ":max": 10 });
+  });
+
+  it("refuses a slot once the cap is reached", async () => {
+    mock.method(dynamoDbClient, "updateItem", async () => {
+      throw conditionalCheckFailed();
+    });
+
+    assert.equal(await admissionService.acquireConnectionSlot(10), false);
+  });
+
+  it("never releases below zero", async () => {
+    mock.method(dynamoDbClient, "updateItem", async () => {
+      throw conditionalCheckFailed();
+    });
+
+    await admissionService.releaseConnectionSlot();
+  });
+});
+
+describe("connectionService.closeConnection", () => {
+  function stubCleanup(deleted?: Record<string, any>) {
+    mock.method(dynamoDbClient, "deleteItem", async () => ({
+      Attributes: deleted,
+    }));
+    mock.method(subscriptionService, "removeConnection", async () => {});
+    return {
+      release: mock.method(
+        admissionService,
+        "releaseConnectionSlot",
+        async () => {}
+      ),
+      disconnect: mock.method(
+        presenceService,
+        "disconnect",
+        async (): Promise<null> => null
+      ),
+    };
+  }
+
+  it("releases the slot and presence of the deleted connection", async () => {
+    const { release, disconnect } = stubCleanup({
+      connectionId: "c1",
+      userId: "u1",
+      userData: { holdsSlot: true },
+    });
+
+    await connectionService.closeConnection("c1");
+    assert.equal(release.mock.callCount(), 1);
+    assert.deepEqual(disconnect.mock.calls[0].arguments, ["u1"]);
+  });
+
+  it("keeps the slot of connections admitted without one", async () => {
+    const { release } = stubCleanup({ connectionId: "c1", userId: "u1" });
+
+    await connectionService.closeConnection("c1");
+    assert.equal(release.mock.callCount(), 0);
+  });
+
+  it("releases nothing when the connection was already removed", async () => {
+    const { release, disconnect } = stubCleanup(undefined);
+
+    assert.equal(await connectionService.closeConnection("c1"), null);
+    assert.equal(release.mock.callCount(), 0);
+    assert.equal(disconnect.mock.callCount(), 0);
+  });
+});
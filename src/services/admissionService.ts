@@ -0,0 +1,67 @@
+// services/admissionService.ts
+// Purpose: Global connection cap - a stage-wide count of open connections
+import dynamoDbClient from "./dynamoDbClient";
+import config from "../config/config";
+
+// Counters live in the rate limits table, next to the rate limit buckets
+const rateLimitsTable = config.aws.dynamodb.tableNames.rateLimits;
+const CONNECTIONS_KEY = "connections#open";
+
+/**
+ * Service for admitting connections under the global cap
+ */
+const admissionService = {
+  /**
+   * Take a connection slot, if fewer than `maxConnections` are taken
+   * @param maxConnections - The global cap
+   * @returns Whether a slot was taken
+   */
+  async acquireConnectionSlot(maxConnections: number): Promise<boolean> {
+    try {
+      await dynamoDbClient.updateItem(
+        rateLimitsTable,
+        { key: CONNECTIONS_KEY },
+        "ADD #count :one",
+        { ":one": 1, ":max": maxConnections },
+        {
+          ConditionExpression: "attribute_not_exists(#count) OR #count < :max",
+          ExpressionAttributeNames: { "#count": "count" },
+        }
+      );
+      return true;
+    } catch (error: any) {
+      if (error.name === "ConditionalCheckFailedException") {
+        return false;
+      }
+      console.error("Error acquiring connection slot:", error);
+      throw new Error("Failed to acquire connection slot");
+    }
+  },
+
+  /**
+   * Give back the slot of a closed connection
+   */
+  async releaseConnectionSlot(): Promise<void> {
+    try {
+      await dynamoDbClient.updateItem(
+        rateLimitsTable,
+        { key: CONNECTIONS_KEY },
+        "ADD #count :minusOne",
+        { ":minusOne": -1, ":zero": 0 },
+        {
+          // Never go below zero, e.g. for connections opened before the cap
+          ConditionExpression: "#count > :zero",
+          ExpressionAttributeNames: { "#count": "count" },
+        }
+      );
+    } catch (error: any) {
+      if (error.name === "ConditionalCheckFailedException") {
+        return;
+      }
+      console.error("Error releasing connection slot:", error);
+      throw new Error("Failed to release connection slot");
+    }
+  },
+};
+
+export default admissionService;
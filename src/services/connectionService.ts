@@ -1,13 +1,23 @@
 // /services/connectionService
 import dynamoDbClient from "./dynamoDbClient";
+import subscriptionService from "./subscriptionService";
+import admissionService from "./admissionService";
+import presenceService, { PresenceChange } from "./presenceService";
 
 const TABLE_NAME = process.env.CONNECTIONS_TABLE_NAME || "socket-connections";
+export const connectionsTable = TABLE_NAME;
+const USER_INDEX = "userId-index";
+
+// Connections expire 2 hours after they were last seen
+const CONNECTION_TTL_SECONDS = 60 * 60 * 2;
 /**
  * Service for managing WebSocket connections stored in DynamoDB.
  */
 const connectionService = {
   /**
-   * Add a new connection to DynamoDB with a 2-hour TTL.
+   * Add a new connection to DynamoDB with a 2-hour TTL, extended by heartbeats.
+   * `userData.userId` is also stored top-level so it can be queried via the userId GSI,
+   * and `userData.tokenExpiresAt` so expired connections can be found.
    * @param connectionId - The WebSocket connection ID.
    * @param userData - Optional user data.
    */
@@ -16,11 +26,16 @@ const connectionService = {
     userData: Record<string, any> = {}
   ): Promise<void> {
     const timestamp = Date.now();
-    const ttl = Math.floor(timestamp / 1000) + 60 * 60 * 2; // 2 hours
+    const ttl = Math.floor(timestamp / 1000) + CONNECTION_TTL_SECONDS;
 
     const connection = {
       connectionId,
+      ...(userData.userId && { userId: userData.userId }),
+      ...(userData.tokenExpiresAt && {
+        tokenExpiresAt: userData.tokenExpiresAt,
+      }),
       timestamp,
+      lastSeen: timestamp,
       ttl,
       userData,
     };
@@ -33,6 +48,271 @@ const connectionService = {
     }
   },
 
+  /**
+   * Get a single connection by ID.
+   * @param connectionId - The WebSocket connection ID.
+   * @returns The connection object or undefined if not found.
+   */
+  async getConnection(
+    connectionId: string
+  ): Promise<Record<string, any> | undefined> {
+    try {
+      return await dynamoDbClient.getItem(TABLE_NAME, { connectionId });
+    } catch (error) {
+      console.error("Error fetching connection:", error);
+      throw new Error("Failed to fetch connection");
+    }
+  },
+
+  /**
+   * Record activity on a connection, refreshing lastSeen and extending its TTL
+   * and the TTLs of its subscriptions.
+   * @param connectionId - The WebSocket connection ID.
+   * @param lastSeen - When the connection was last active (default: now).
+   * @returns Whether the connection still exists.
+   */
+  async touchConnection(
+    connectionId: string,
+    lastSeen = Date.now()
+  ): Promise<boolean> {
+    try {
+      await dynamoDbClient.updateItem(
+        TABLE_NAME,
+        { connectionId },
+        "SET lastSeen = :lastSeen, #ttl = :ttl",
+        {
+          ":lastSeen": lastSeen,
+          ":ttl": Math.floor(lastSeen / 1000) + CONNECTION_TTL_SECONDS,
+        },
+        {
+          ConditionExpression: "attribute_exists(connectionId)",
+          ExpressionAttributeNames: { "#ttl": "ttl" },
+        }
+      );
+    } catch (error: any) {
+      if (error.name === "ConditionalCheckFailedException") {
+        return false;
+      }
+      console.error("Error touching connection:", error);
+      throw new Error("Failed to touch connection");
+    }
+
+    await subscriptionService.touchConnection(connectionId, lastSeen);
+    return true;
+  },
+
+  /**
+   * Set when the token authenticating a connection expires, e.g. after a refresh.
+   * @param connectionId - The WebSocket connection ID.
+   * @param tokenExpiresAt - Expiry (ms since epoch), or undefined if the token doesn't expire.
+   * @param claims - The new token's claims, replacing `userData.claims`.
+   */
+  async updateTokenExpiry(
+    connectionId: string,
+    tokenExpiresAt?: number,
+    claims?: Record<string, any>
+  ): Promise<void> {
+    const set: string[] = [];
+    const remove: string[] = [];
+    const values: Record<string, any> = {};
+
+    if (tokenExpiresAt) {
+      set.push(
+        "tokenExpiresAt = :tokenExpiresAt",
+        "userData.tokenExpiresAt = :tokenExpiresAt"
+      );
+      values[":tokenExpiresAt"] = tokenExpiresAt;
+    } else {
+      remove.push("tokenExpiresAt", "userData.tokenExpiresAt");
+    }
+    if (claims) {
+      set.push("userData.claims = :claims");
+      values[":claims"] = claims;
+    }
+
+    try {
+      await dynamoDbClient.updateItem(
+        TABLE_NAME,
+        { connectionId },
+        [
+          set.length > 0 && `SET ${set.join(", ")}`,
+          remove.length > 0 && `REMOVE ${remove.join(", ")}`,
+        ]
+          .filter(Boolean)
+          .join(" "),
+        Object.keys(values).length > 0 ? values : undefined,
+        { ConditionExpression: "attribute_exists(connectionId)" }
+      );
+    } catch (error) {
+      console.error("Error updating connection token expiry:", error);
+      throw new Error("Failed to update connection token expiry");
+    }
+  },
+
+  /**
+   * Get the connections whose token has expired.
+   * @param now - The current time (default: now).
+   * @returns An array of connection objects.
+   */
+  async getExpiredConnections(
+    now = Date.now()
+  ): Promise<Record<string, any>[]> {
+    const connections: Record<string, any>[] = [];
+    try {
+      for await (const connection of dynamoDbClient.iterateScan(TABLE_NAME, {
+        FilterExpression: "tokenExpiresAt <= :now",
+        ExpressionAttributeValues: { ":now": now },
+      })) {
+        connections.push(connection);
+      }
+      return connections;
+    } catch (error) {
+      console.error("Error fetching expired connections:", error);
+      throw new Error("Failed to fetch expired connections");
+    }
+  },
+
+  /**
+   * Get the connections that haven't been seen since a point in time.
+   * @param seenBefore - Timestamp (ms) connections must have been last seen before.
+   * @returns An array of connection objects.
+   */
+  async getIdleConnections(seenBefore: number): Promise<Record<string, any>[]> {
+    const connections: Record<string, any>[] = [];
+    try {
+      for await (const connection of dynamoDbClient.iterateScan(TABLE_NAME, {
+        // Connections stored before heartbeats have only a timestamp
+        FilterExpression:
+          "lastSeen < :seenBefore OR (attribute_not_exists(lastSeen) AND #timestamp < :seenBefore)",
+        ExpressionAttributeNames: { "#timestamp": "timestamp" },
+        ExpressionAttributeValues: { ":seenBefore": seenBefore },
+      })) {
+        connections.push(connection);
+      }
+      return connections;
+    } catch (error) {
+      console.error("Error fetching idle connections:", error);
+      throw new Error("Failed to fetch idle connections");
+    }
+  },
+
+  /**
+   * Claim a throttled signal for a connection, at most once per interval.
+   * The claim is a conditional write on the connection item, so it holds
+   * across Lambda instances.
+   * @param connectionId - The WebSocket connection ID.
+   * @param signal - Name of the throttled signal (e.g. "typing").
+   * @param intervalMs - Minimum time between two claims.
+   * @returns Whether the signal may be sent now.
+   */
+  async claimSignal(
+    connectionId: string,
+    signal: string,
+    intervalMs: number
+  ): Promise<boolean> {
+    const now = Date.now();
+    try {
+      await dynamoDbClient.updateItem(
+        TABLE_NAME,
+        { connectionId },
+        "SET #signalAt = :now",
+        { ":now": now, ":threshold": now - intervalMs },
+        {
+          ConditionExpression:
+            "attribute_exists(connectionId) AND (attribute_not_exists(#signalAt) OR #signalAt <= :threshold)",
+          ExpressionAttributeNames: { "#signalAt": `${signal}SignalAt` },
+        }
+      );
+      return true;
+    } catch (error: any) {
+      if (error.name === "ConditionalCheckFailedException") {
+        return false;
+      }
+      console.error("Error claiming connection signal:", error);
+      throw new Error("Failed to claim connection signal");
+    }
+  },
+
+  /**
+   * Close a connection that went away: delete it and release what it held.
+   * Every path that removes a stored connection ($disconnect, the reaper,
+   * stale posts, evictions) goes through here, so the global connection
+   * count and presence stay in step. Only the caller that actually deleted
+   * the row releases, so concurrent removals don't double-count.
+   * @param connectionId - The WebSocket connection ID.
+   * @returns The presence change if it was the user's last connection.
+   */
+  async closeConnection(connectionId: string): Promise<PresenceChange | null> {
+    let connection: Record<string, any> | undefined;
+    try {
+      const result = await dynamoDbClient.deleteItem(
+        TABLE_NAME,
+        { connectionId },
+        { ReturnValues: "ALL_OLD" }
+      );
+      connection = result.Attributes;
+    } catch (error) {
+      console.error("Error removing connection:", error);
+      throw new Error("Failed to remove connection");
+    }
+
+    // Remove subscriptions even if the row was already gone
+    await subscriptionService.removeConnection(connectionId);
+    return connection ? await this.releaseConnection(connection) : null;
+  },
+
+  /**
+   * Close many gone connections at once (e.g. stale connections found during
+   * a broadcast): read their rows, delete them and their subscriptions in
+   * batches, then release what the rows held. Unlike closeConnection this
+   * can't tell whether a concurrent $disconnect deleted a row first, so a
+   * racing connection may be released twice; the slot and presence counters
+   * never drop below zero.
+   * @param connectionIds - The connection IDs to close.
+   * @returns The presence changes of users who lost their last connection.
+   */
+  async closeConnections(connectionIds: string[]): Promise<PresenceChange[]> {
+    let connections: Record<string, any>[];
+    try {
+      connections = await dynamoDbClient.batchGet(
+        TABLE_NAME,
+        connectionIds.map((connectionId) => ({ connectionId }))
+      );
+    } catch (error) {
+      console.error("Error fetching connections to close:", error);
+      throw new Error("Failed to remove connections");
+    }
+
+    await this.removeConnections(connectionIds);
+    await subscriptionService.removeConnections(connectionIds);
+
+    const changes: PresenceChange[] = [];
+    for (const connection of connections) {
+      const change = await this.releaseConnection(connection);
+      if (change) {
+        changes.push(change);
+      }
+    }
+    return changes;
+  },
+
+  /**
+   * Release the global connection slot and the presence held by a deleted
+   * connection row, e.g. one deleted by the TTL.
+   * @param connection - The deleted connection row.
+   * @returns The presence change if it was the user's last connection.
+   */
+  async releaseConnection(
+    connection: Record<string, any>
+  ): Promise<PresenceChange | null> {
+    if (connection.userData?.holdsSlot) {
+      await admissionService.releaseConnectionSlot();
+    }
+    return connection.userId
+      ? await presenceService.disconnect(connection.userId)
+      : null;
+  },
+
   /**
    * Remove a connection from DynamoDB.
    * @param connectionId - The connection ID to remove.
@@ -47,13 +327,34 @@ const connectionService = {
   },
 
   /**
-   * Get all active connections with an optional limit for pagination.
-   * @param limit - Maximum number of connections to return (default: 100).
+   * Remove many connections at once (e.g. stale connections found during a broadcast).
+   * @param connectionIds - The connection IDs to remove.
+   */
+  async removeConnections(connectionIds: string[]): Promise<void> {
+    try {
+      await dynamoDbClient.batchWrite(TABLE_NAME, {
+        deleteKeys: connectionIds.map((connectionId) => ({ connectionId })),
+      });
+    } catch (error) {
+      console.error("Error removing connections:", error);
+      throw new Error("Failed to remove connections");
+    }
+  },
+
+  /**
+   * Get all active connections, walking every page of the table.
+   * @param pageSize - Number of connections to read per page (default: 100).
    * @returns An array of connection objects.
    */
-  async getConnections(limit = 100): Promise<Record<string, any>[]> {
+  async getConnections(pageSize = 100): Promise<Record<string, any>[]> {
+    const connections: Record<string, any>[] = [];
     try {
-      return await dynamoDbClient.scan(TABLE_NAME, { Limit: limit });
+      for await (const connection of dynamoDbClient.iterateScan(TABLE_NAME, {
+        Limit: pageSize,
+      })) {
+        connections.push(connection);
+      }
+      return connections;
     } catch (error) {
       console.error("Error fetching connections:", error);
       throw new Error("Failed to fetch connections");
@@ -61,30 +362,25 @@ const connectionService = {
   },
 
   /**
-   * Find connections by a user data property.
-   * This method is inefficient without a Global Secondary Index (GSI).
-   * @param key - The user data key to filter by.
-   * @param value - The value to match.
-   * @param limit - Maximum number of connections to return.
-   * @returns An array of matching connection objects.
+   * Get all connections belonging to a user (one per device/tab).
+   * @param userId - The user ID.
+   * @returns An array of the user's connection objects.
    */
-  async findConnectionsByUserData(
-    key: string,
-    value: any,
-    limit = 100
-  ): Promise<Record<string, any>[]> {
-    const params = {
-      FilterExpression: "userData.#key = :value",
-      ExpressionAttributeNames: { "#key": key },
-      ExpressionAttributeValues: { ":value": value },
-      Limit: limit,
-    };
-
+  async getConnectionsForUser(userId: string): Promise<Record<string, any>[]> {
+    const connections: Record<string, any>[] = [];
     try {
-      return await dynamoDbClient.scan(TABLE_NAME, params);
+      for await (const connection of dynamoDbClient.iterateQuery(
+        TABLE_NAME,
+        "userId = :userId",
+        { ":userId": userId },
+        { IndexName: USER_INDEX }
+      )) {
+        connections.push(connection);
+      }
+      return connections;
     } catch (error) {
-      console.error("Error finding connections:", error);
-      throw new Error("Failed to find connections");
+      console.error("Error fetching user connections:", error);
+      throw new Error("Failed to fetch user connections");
     }
   },
 };
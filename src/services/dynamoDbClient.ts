@@ -15,9 +15,15 @@ import {
   UpdateCommandInput,
   ScanCommand,
   ScanCommandInput,
+  BatchGetCommand,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
 } from "@aws-sdk/lib-dynamodb";
 import config from "../config/config";
 import { ReturnValue } from "@aws-sdk/client-dynamodb";
+import { AppError, handleDynamoDBError } from "../utils/errorHandler";
 // Initialize DynamoDB client with configuration
 const dynamoOptions: DynamoDBClientConfig = {
   region: config.aws.region,
@@ -39,6 +45,80 @@ const dynamoDbClient = DynamoDBDocumentClient.from(client, {
   },
 });
 
+// DynamoDB limits per batch request
+const BATCH_GET_LIMIT = 100;
+const BATCH_WRITE_LIMIT = 25;
+
+// Retry settings for UnprocessedItems / UnprocessedKeys
+const BATCH_MAX_RETRIES = 5;
+const BATCH_BASE_DELAY_MS = 50;
+
+type WriteRequest = NonNullable<
+  BatchWriteCommandInput["RequestItems"]
+>[string][number];
+
+/**
+ * A single page of query/scan results
+ */
+export interface Page<T> {
+  items: T[];
+  // Opaque cursor for the next page, undefined on the last page
+  nextCursor?: string;
+}
+
+type QueryOptions = Partial<
+  Omit<
+    QueryCommandInput,
+    | "TableName"
+    | "KeyConditionExpression"
+    | "ExpressionAttributeValues"
+    | "ExclusiveStartKey"
+  >
+> & { cursor?: string };
+
+type ScanOptions = Partial<
+  Omit<ScanCommandInput, "TableName" | "ExclusiveStartKey">
+> & { cursor?: string };
+
+/**
+ * Encode a LastEvaluatedKey as an opaque, URL-safe cursor
+ */
+function encodeCursor(key?: Record<string, any>): string | undefined {
+  return key
+    ? Buffer.from(JSON.stringify(key)).toString("base64url")
+    : undefined;
+}
+
+/**
+ * Decode a cursor produced by encodeCursor back into an ExclusiveStartKey
+ */
+function decodeCursor(cursor: string): Record<string, any> {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    throw new AppError("Invalid pagination cursor", 400, "INVALID_CURSOR");
+  }
+}
+
+/**
+ * Split an array into chunks of at most `size` elements
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Exponential backoff with full jitter before retrying unprocessed batch items
+ */
+function backoff(attempt: number): Promise<void> {
+  const delay = Math.random() * BATCH_BASE_DELAY_MS * 2 ** attempt;
+  return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
 /**
  * DynamoDB client service for common database operations
  */
@@ -83,12 +163,18 @@ export default {
    * Delete an item from DynamoDB
    * @param tableName - The DynamoDB table name
    * @param key - The key object (must include the partition key)
+   * @param options - Additional delete options, e.g. ReturnValues
    * @returns The result of the delete operation
    */
-  async deleteItem(tableName: string, key: Record<string, any>) {
+  async deleteItem(
+    tableName: string,
+    key: Record<string, any>,
+    options: Partial<Omit<DeleteCommandInput, "TableName" | "Key">> = {}
+  ) {
     const params: DeleteCommandInput = {
       TableName: tableName,
       Key: key,
+      ...options,
     };
 
     const command = new DeleteCommand(params);
@@ -96,34 +182,60 @@ export default {
   },
 
   /**
-   * Query items from DynamoDB
+   * Query a single page of items from DynamoDB
    * @param tableName - The DynamoDB table name
    * @param keyConditionExpression - The key condition expression
    * @param expressionAttributeValues - The expression attribute values
-   * @param options - Additional query options
-   * @returns The query results
+   * @param options - Additional query options, including the cursor of the page to fetch
+   * @returns The page of items and the cursor of the next page
    */
   async query<T = Record<string, any>>(
     tableName: string,
     keyConditionExpression: string,
     expressionAttributeValues: Record<string, any>,
-    options: Partial<
-      Omit<
-        QueryCommandInput,
-        "TableName" | "KeyConditionExpression" | "ExpressionAttributeValues"
-      >
-    > = {}
-  ): Promise<T[]> {
+    options: QueryOptions = {}
+  ): Promise<Page<T>> {
+    const { cursor, ...queryOptions } = options;
     const params: QueryCommandInput = {
       TableName: tableName,
       KeyConditionExpression: keyConditionExpression,
       ExpressionAttributeValues: expressionAttributeValues,
-      ...options,
+      ...queryOptions,
+      ...(cursor && { ExclusiveStartKey: decodeCursor(cursor) }),
     };
 
     const command = new QueryCommand(params);
     const result = await dynamoDbClient.send(command);
-    return (result.Items || []) as T[];
+    return {
+      items: (result.Items || []) as T[],
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  },
+
+  /**
+   * Iterate over every item matching a query, fetching pages as needed
+   * @param tableName - The DynamoDB table name
+   * @param keyConditionExpression - The key condition expression
+   * @param expressionAttributeValues - The expression attribute values
+   * @param options - Additional query options (Limit applies per page)
+   */
+  async *iterateQuery<T = Record<string, any>>(
+    tableName: string,
+    keyConditionExpression: string,
+    expressionAttributeValues: Record<string, any>,
+    options: QueryOptions = {}
+  ): AsyncGenerator<T> {
+    let cursor = options.cursor;
+    do {
+      const page: Page<T> = await this.query(
+        tableName,
+        keyConditionExpression,
+        expressionAttributeValues,
+        { ...options, cursor }
+      );
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor);
   },
 
   /**
@@ -166,22 +278,166 @@ export default {
   },
 
   /**
-   * Scan items from DynamoDB
+   * Scan a single page of items from DynamoDB
    * @param tableName - The DynamoDB table name
-   * @param options - Scan options including filters
-   * @returns The scan results
+   * @param options - Scan options including filters and the cursor of the page to fetch
+   * @returns The page of items and the cursor of the next page
    */
   async scan<T = Record<string, any>>(
     tableName: string,
-    options: Partial<Omit<ScanCommandInput, "TableName">> = {}
-  ): Promise<T[]> {
+    options: ScanOptions = {}
+  ): Promise<Page<T>> {
+    const { cursor, ...scanOptions } = options;
     const params: ScanCommandInput = {
       TableName: tableName,
-      ...options,
+      ...scanOptions,
+      ...(cursor && { ExclusiveStartKey: decodeCursor(cursor) }),
     };
 
     const command = new ScanCommand(params);
     const result = await dynamoDbClient.send(command);
-    return (result.Items || []) as T[];
+    return {
+      items: (result.Items || []) as T[],
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
   },
-};
\ No newline at end of file
+
+  /**
+   * Iterate over every item in a table, fetching pages as needed
+   * @param tableName - The DynamoDB table name
+   * @param options - Scan options including filters (Limit applies per page)
+   */
+  async *iterateScan<T = Record<string, any>>(
+    tableName: string,
+    options: ScanOptions = {}
+  ): AsyncGenerator<T> {
+    let cursor = options.cursor;
+    do {
+      const page: Page<T> = await this.scan(tableName, {
+        ...options,
+        cursor,
+      });
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor);
+  },
+
+  /**
+   * Get many items from one table by key, 100 keys per request.
+   * Unprocessed keys are retried with exponential backoff.
+   * @param tableName - The DynamoDB table name
+   * @param keys - The key objects of the items to fetch
+   * @returns The items found (in no particular order)
+   */
+  async batchGet<T = Record<string, any>>(
+    tableName: string,
+    keys: Record<string, any>[]
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    try {
+      for (const keyChunk of chunk(keys, BATCH_GET_LIMIT)) {
+        let pending: Record<string, any>[] = keyChunk;
+
+        for (let attempt = 0; pending.length > 0; attempt++) {
+          if (attempt > BATCH_MAX_RETRIES) {
+            throw new AppError(
+              "Failed to read all batch items after retries.",
+              503,
+              "BATCH_INCOMPLETE"
+            );
+          }
+          if (attempt > 0) {
+            await backoff(attempt);
+          }
+
+          const command = new BatchGetCommand({
+            RequestItems: { [tableName]: { Keys: pending } },
+          });
+          const result = await dynamoDbClient.send(command);
+
+          items.push(...((result.Responses?.[tableName] || []) as T[]));
+          pending = result.UnprocessedKeys?.[tableName]?.Keys || [];
+        }
+      }
+    } catch (error) {
+      throw error instanceof AppError ? error : handleDynamoDBError(error);
+    }
+
+    return items;
+  },
+
+  /**
+   * Put and/or delete many items in one table, 25 requests per batch.
+   * Unprocessed items are retried with exponential backoff.
+   * @param tableName - The DynamoDB table name
+   * @param operations - Items to put and keys of items to delete
+   */
+  async batchWrite(
+    tableName: string,
+    operations: {
+      putItems?: Record<string, any>[];
+      deleteKeys?: Record<string, any>[];
+    }
+  ): Promise<void> {
+    const requests: WriteRequest[] = [
+      ...(operations.putItems || []).map((item) => ({
+        PutRequest: { Item: item },
+      })),
+      ...(operations.deleteKeys || []).map((key) => ({
+        DeleteRequest: { Key: key },
+      })),
+    ];
+
+    try {
+      for (const requestChunk of chunk(requests, BATCH_WRITE_LIMIT)) {
+        let pending: WriteRequest[] = requestChunk;
+
+        for (let attempt = 0; pending.length > 0; attempt++) {
+          if (attempt > BATCH_MAX_RETRIES) {
+            throw new AppError(
+              "Failed to write all batch items after retries.",
+              503,
+              "BATCH_INCOMPLETE"
+            );
+          }
+          if (attempt > 0) {
+            await backoff(attempt);
+          }
+
+          const command = new BatchWriteCommand({
+            RequestItems: { [tableName]: pending },
+          });
+          const result = await dynamoDbClient.send(command);
+
+          pending = result.UnprocessedItems?.[tableName] || [];
+        }
+      }
+    } catch (error) {
+      throw error instanceof AppError ? error : handleDynamoDBError(error);
+    }
+  },
+
+  /**
+   * Run up to 100 put/update/delete/condition-check actions atomically
+   * @param transactItems - The transaction actions (each names its own table)
+   * @param clientRequestToken - Optional idempotency token
+   * @returns The result of the transaction
+   */
+  async transactWrite(
+    transactItems: TransactWriteCommandInput["TransactItems"],
+    clientRequestToken?: string
+  ) {
+    const params: TransactWriteCommandInput = {
+      TransactItems: transactItems,
+      ...(clientRequestToken && { ClientRequestToken: clientRequestToken }),
+    };
+
+    try {
+      const command = new TransactWriteCommand(params);
+      return await dynamoDbClient.send(command);
+    } catch (error) {
+      throw handleDynamoDBError(error);
+    }
+  },
+};
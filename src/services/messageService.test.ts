@@ -0,0 +1,257 @@
+// services/messageService.test.ts
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ApiGatewayManagementApiClient } from "@aws-sdk/client-apigatewaymanagementapi";
+import config from "../config/config";
+import dynamoDbClient from "./dynamoDbClient";
+import connectionService from "./connectionService";
+import { PresenceChange } from "./presenceService";
+import messageService, { BroadcastResult, Message } from "./messageService";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+function stubPendingMessages(ids: string[]) {
+  mock.method(dynamoDbClient, "iterateQuery", async function* () {
+    for (const id of ids) {
+      yield { id, content: id, timestamp: 1000, status: "pending" };
+    }
+  });
+}
+
+describe("messageService.saveMessage", () => {
+  it("queues messages for a recipient as pending", async () => {
+    mock.method(dynamoDbClient, "putItem", async () => {});
+
+    const message = await messageService.saveMessage(
+      "c1",
+      "hi",
+      "s1",
+      {},
+      "u1"
+    );
+    assert.equal(message.status, "pending");
+    assert.equal(message.pendingUserId, "u1");
+  });
+
+  it("stores messages without a recipient as sent", async () => {
+    mock.method(dynamoDbClient, "putItem", async () => {});
+
+    const message = await messageService.saveMessage("c1", "hi", "s1");
+    assert.equal(message.status, "sent");
+    assert.equal(message.pendingUserId, undefined);
+  });
+});
+
+describe("messageService.persistAndSendToUser", () => {
+  function stubDelivery(result: Partial<BroadcastResult>) {
+    mock.method(
+      messageService,
+      "saveMessage",
+      async () => ({ id: "m1" } as Message)
+    );
+    mock.method(
+      messageService,
+      "sendToUser",
+      async (): Promise<BroadcastResult> => ({
+        delivered: 0,
+        failed: 0,
+        pruned: 0,
+        queued: 0,
+        results: [],
+        ...result,
+      })
+    );
+    return mock.method(messageService, "markDelivered", async () => true);
+  }
+
+  it("marks messages handed to the outbound queue as delivered", async () => {
+    const markDelivered = stubDelivery({ queued: 2 });
+
+    await messageService.persistAndSendToUser(null, "c1", "u1", "hi", "s1");
+    assert.deepEqual(markDelivered.mock.calls[0].arguments, ["m1"]);
+  });
+
+  it("keeps messages for offline users pending", async () => {
+    const markDelivered = stubDelivery({});
+
+    await messageService.persistAndSendToUser(null, "c1", "u1", "hi", "s1");
+    assert.equal(markDelivered.mock.callCount(), 0);
+  });
+});
+
+describe("messageService.flushUndelivered", () => {
+  it("marks messages delivered only after they were posted", async () => {
+    stubPendingMessages(["m1", "m2", "m3"]);
+    const sent: string[] = [];
+    mock.method(
+      messageService,
+      "sendToClient",
+      async (_event: any, _connectionId: string, payload: any) => {
+        sent.push(payload.messageId);
+        return payload.messageId !== "m2";
+      }
+    );
+    const markDelivered = mock.method(
+      messageService,
+      "markDelivered",
+      async () => true
+    );
+
+    assert.equal(await messageService.flushUndelivered(null, "c1", "u1"), 1);
+    // The flush stops at the failed post, keeping m2 and m3 pending
+    assert.deepEqual(sent, ["m1", "m2"]);
+    assert.deepEqual(
+      markDelivered.mock.calls.map((call) => call.arguments[0]),
+      ["m1"]
+    );
+  });
+});
+
+describe("messageService.broadcast", () => {
+  const outbound = { ...config.outbound };
+  const callbackUrl = config.websocket.callbackUrl;
+  const connectionIds = ["c1", "c2", "c3"];
+
+  beforeEach(() => {
+    Object.assign(config.outbound, {
+      async: true,
+      asyncThreshold: 2,
+      queueUrl: undefined,
+    });
+    config.websocket.callbackUrl = "https://example.com/dev";
+    mock.method(
+      ApiGatewayManagementApiClient.prototype,
+      "send",
+      async () => ({})
+    );
+  });
+
+  afterEach(() => {
+    Object.assign(config.outbound, outbound);
+    config.websocket.callbackUrl = callbackUrl;
+    delete process.env.AWS_LAMBDA_FUNCTION_NAME;
+  });
+
+  it("queues large broadcasts in memory outside Lambda", async () => {
+    const enqueue = mock.method(
+      messageService,
+      "enqueueBroadcast",
+      async (): Promise<BroadcastResult> => ({
+        delivered: 0,
+        failed: 0,
+        pruned: 0,
+        queued: 3,
+        results: [],
+      })
+    );
+
+    await messageService.broadcast(null, connectionIds, { hi: true });
+    assert.equal(enqueue.mock.callCount(), 1);
+  });
+
+  it("delivers inline on Lambda without a queue URL", async () => {
+    process.env.AWS_LAMBDA_FUNCTION_NAME = "websocket";
+    const enqueue = mock.method(messageService, "enqueueBroadcast");
+
+    const result = await messageService.broadcast(null, connectionIds, {
+      hi: true,
+    });
+    assert.equal(enqueue.mock.callCount(), 0);
+    assert.equal(result.delivered, 3);
+  });
+
+  it("prunes gone connections in one batch", async () => {
+    process.env.AWS_LAMBDA_FUNCTION_NAME = "websocket";
+    mock.method(
+      ApiGatewayManagementApiClient.prototype,
+      "send",
+      async (command: any) => {
+        if (command.input.ConnectionId !== "c1") {
+          throw Object.assign(new Error("Gone"), { name: "GoneException" });
+        }
+        return {};
+      }
+    );
+    const closeConnections = mock.method(
+      connectionService,
+      "closeConnections",
+      async (): Promise<PresenceChange[]> => [
+        {
+          userId: "u2",
+          status: "offline",
+          previousStatus: "online",
+          lastSeen: 1000,
+        },
+      ]
+    );
+    const publishPresence = mock.method(
+      messageService,
+      "publishPresence",
+      async () => {}
+    );
+
+    const result = await messageService.broadcast(null, connectionIds, {
+      hi: true,
+    });
+    assert.equal(result.pruned, 2);
+    assert.equal(closeConnections.mock.callCount(), 1);
+    assert.deepEqual(closeConnections.mock.calls[0].arguments, [["c2", "c3"]]);
+    assert.equal(publishPresence.mock.callCount(), 1);
+  });
+});
+
+describe("messageService.editMessage", () => {
+  function stubEdit(editHistory: Message["editHistory"]) {
+    mock.method(
+      messageService,
+      "getOwnMessage",
+      async () =>
+        ({
+          id: "m1",
+          sessionId: "s1",
+          content: "latest",
+          timestamp: 1000,
+          version: editHistory.length + 1,
+          editHistory,
+        } as Message)
+    );
+    mock.method(messageService, "broadcastToSession", async () => ({}));
+    return mock.method(
+      messageService,
+      "updateVersioned",
+      async () => ({ id: "m1", sessionId: "s1" } as Message)
+    );
+  }
+
+  it("keeps only the most recent revisions", async () => {
+    const history = Array.from({ length: 20 }, (_, i) => ({
+      content: `v${i + 1}`,
+      version: i + 1,
+      editedAt: 1000 + i,
+    }));
+    const update = stubEdit(history);
+
+    await messageService.editMessage(null, "u1", "m1", "new");
+    const kept = update.mock.calls[0].arguments[2][":editHistory"];
+    assert.equal(kept.length, 20);
+    assert.equal(kept[0].content, "v2");
+    assert.equal(kept[19].content, "latest");
+  });
+
+  it("drops old revisions that would make the item too large", async () => {
+    const content = "x".repeat(30000);
+    const history = Array.from({ length: 10 }, (_, i) => ({
+      content,
+      version: i + 1,
+      editedAt: 1000 + i,
+    }));
+    const update = stubEdit(history);
+
+    await messageService.editMessage(null, "u1", "m1", "new");
+    const kept = update.mock.calls[0].arguments[2][":editHistory"];
+    assert.ok(Buffer.byteLength(JSON.stringify(kept)) <= 200 * 1024);
+    assert.equal(kept[kept.length - 1].content, "latest");
+  });
+});
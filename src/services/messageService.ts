@@ -3,11 +3,19 @@
 import { v4 as uuidv4 } from "uuid";
 import {
   ApiGatewayManagementApiClient,
+  DeleteConnectionCommand,
+  GetConnectionCommand,
   PostToConnectionCommand,
 } from "@aws-sdk/client-apigatewaymanagementapi";
-import dynamoDbClient from "./dynamoDbClient";
+import dynamoDbClient, { Page } from "./dynamoDbClient";
 import config from "../config/config";
 import connectionService from "./connectionService";
+import subscriptionService from "./subscriptionService";
+import { PresenceChange, presenceChannel } from "./presenceService";
+import sessionService from "./sessionService";
+import { createQueue, createSqsQueue } from "./queueService";
+import { mapWithConcurrency, sleep } from "../utils/concurrency";
+import { AppError } from "../utils/errorHandler";
 
 // Get table name from config
 const messagesTable = config.aws.dynamodb.tableNames.messages;
@@ -15,49 +23,325 @@ const messagesTable = config.aws.dynamodb.tableNames.messages;
 // TTL duration in seconds (30 days)
 const MESSAGE_TTL_SECONDS = 60 * 60 * 24 * 30;
 
-interface Message {
+// GSI of a session's messages sorted by timestamp. It replaces the unsorted
+// "sessionId-index", since a GSI's key schema can't be changed in place.
+const SESSION_INDEX = "sessionTimestamp-index";
+
+// Sparse GSI of messages still waiting to be delivered, by recipient and timestamp
+const PENDING_INDEX = "pendingUserId-index";
+
+// Unread counts above this are reported as this value (shown as "99+" etc.)
+const MAX_UNREAD_COUNT = 100;
+
+// Only the most recent revisions are kept, within a size budget that leaves
+// room for the content and reactions under DynamoDB's 400 KB item limit
+const MAX_EDIT_HISTORY_LENGTH = 20;
+const MAX_EDIT_HISTORY_BYTES = 200 * 1024;
+
+// Attempts at applying a reaction before giving up on concurrent updates
+const MAX_REACTION_ATTEMPTS = 3;
+
+// Messages without a recipient (e.g. session messages) are only ever "sent"
+export type MessageStatus = "sent" | "pending" | "delivered" | "acknowledged";
+
+/**
+ * A previous revision of an edited message
+ */
+export interface MessageRevision {
+  content: string;
+  version: number;
+  editedAt: number;
+}
+
+export interface Message {
   id: string;
   connectionId: string;
   content: string;
   timestamp: number;
   ttl: number;
   sessionId: string;
+  status: MessageStatus;
+  recipientUserId?: string;
+  // Only set while the message is pending, so it drops out of the index once delivered
+  pendingUserId?: string;
+  deliveredAt?: number;
+  acknowledgedAt?: number;
   metadata?: Record<string, any>;
+  // Incremented on every change; messages saved before versioning count as 1
+  version?: number;
+  editedAt?: number;
+  editHistory?: MessageRevision[];
+  deletedAt?: number;
+  // Emoji -> IDs of the users who reacted with it
+  reactions?: Record<string, string[]>;
+}
+
+/**
+ * Build the frame sent to clients for a stored message
+ */
+function toClientPayload(message: Message) {
+  return {
+    messageId: message.id,
+    // Deleted messages keep their place in the conversation without their content
+    content: message.deletedAt ? "" : message.content,
+    timestamp: message.timestamp,
+    sessionId: message.sessionId,
+    version: message.version ?? 1,
+    ...(message.metadata && { metadata: message.metadata }),
+    ...(message.editedAt && { editedAt: message.editedAt }),
+    ...(message.deletedAt && { deletedAt: message.deletedAt }),
+    ...(message.reactions && { reactions: message.reactions }),
+  };
+}
+
+/**
+ * Build the options for an update that only applies if the message is
+ * still at `version`, bumping it as part of the update
+ */
+function versionCondition(version: number) {
+  return {
+    // Messages written before versioning have no version attribute
+    ConditionExpression:
+      version === 1
+        ? "attribute_not_exists(version) OR version = :version"
+        : "version = :version",
+    values: { ":version": version, ":nextVersion": version + 1 },
+  };
+}
+
+/**
+ * Drop the oldest revisions until the history fits its length and size limits
+ */
+function trimEditHistory(history: MessageRevision[]): MessageRevision[] {
+  const trimmed = history.slice(-MAX_EDIT_HISTORY_LENGTH);
+  let bytes = Buffer.byteLength(JSON.stringify(trimmed));
+  while (trimmed.length > 1 && bytes > MAX_EDIT_HISTORY_BYTES) {
+    bytes -= Buffer.byteLength(JSON.stringify(trimmed.shift()));
+  }
+  return trimmed;
+}
+
+export type DeliveryStatus = "delivered" | "gone" | "failed";
+
+/**
+ * Per-connection outcome and totals of a broadcast
+ */
+export interface BroadcastResult {
+  delivered: number;
+  failed: number;
+  pruned: number;
+  // Connections handed to the outbound queue instead of posted inline
+  queued: number;
+  results: { connectionId: string; status: DeliveryStatus; error?: string }[];
+}
+
+// Retry settings for throttled PostToConnection calls
+const THROTTLE_MAX_RETRIES = 3;
+const THROTTLE_BASE_DELAY_MS = 100;
+
+function isGoneError(error: any) {
+  return (
+    error.name === "GoneException" || error.$metadata?.httpStatusCode === 410
+  );
+}
+
+function isThrottlingError(error: any) {
+  return (
+    error.name === "LimitExceededException" ||
+    error.name === "TooManyRequestsException" ||
+    error.$metadata?.httpStatusCode === 429
+  );
+}
+
+/**
+ * Post pre-serialized data to a connection, retrying throttled requests
+ * with exponential backoff. Stale connections are reported, not removed.
+ */
+async function postToConnection(
+  apiGatewayInstance: ApiGatewayManagementApiClient,
+  connectionId: string,
+  data: Buffer
+): Promise<{ status: DeliveryStatus; error?: string }> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await apiGatewayInstance.send(
+        new PostToConnectionCommand({ ConnectionId: connectionId, Data: data })
+      );
+      return { status: "delivered" };
+    } catch (error: any) {
+      if (isGoneError(error)) {
+        return { status: "gone" };
+      }
+      if (isThrottlingError(error) && attempt < THROTTLE_MAX_RETRIES) {
+        await sleep(THROTTLE_BASE_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+      return { status: "failed", error: error.name || error.message };
+    }
+  }
 }
 
-// Cache API Gateway instance for reuse
-let apiGateway: ApiGatewayManagementApiClient | null = null;
+// Cache one API Gateway client per endpoint (stage / API) for reuse
+const apiGatewayClients = new Map<string, ApiGatewayManagementApiClient>();
+
+/**
+ * Resolve the management API endpoint to post to.
+ * WEBSOCKET_CALLBACK_URL wins when set, so messages can be sent from
+ * SQS, cron or HTTP-triggered invocations that have no WebSocket event.
+ * Otherwise the execute-api endpoint is derived from the event's apiId and
+ * stage, which also works for connections made through custom domains.
+ */
+function getCallbackUrl(event: any): string {
+  if (config.websocket.callbackUrl) {
+    return config.websocket.callbackUrl;
+  }
+
+  const requestContext = event?.requestContext;
+  if (requestContext?.apiId && requestContext?.stage) {
+    return `https://${requestContext.apiId}.execute-api.${config.aws.region}.amazonaws.com/${requestContext.stage}`;
+  }
+  if (requestContext?.domainName && requestContext?.stage) {
+    return `https://${requestContext.domainName}/${requestContext.stage}`;
+  }
+
+  throw new Error(
+    "Cannot resolve WebSocket callback URL: set WEBSOCKET_CALLBACK_URL or pass an API Gateway event"
+  );
+}
 
 function getApiGateway(event: any) {
+  return getApiGatewayForEndpoint(getCallbackUrl(event));
+}
+
+function getApiGatewayForEndpoint(endpoint: string) {
+  let apiGateway = apiGatewayClients.get(endpoint);
   if (!apiGateway) {
-    const domainName = event.requestContext.domainName;
-    const stage = event.requestContext.stage;
-    const endpoint = `https://${domainName}/${stage}`;
     apiGateway = new ApiGatewayManagementApiClient({
       endpoint,
       region: config.aws.region,
     });
+    apiGatewayClients.set(endpoint, apiGateway);
   }
   return apiGateway;
 }
 
+/**
+ * A queued delivery of one payload to a set of connections
+ */
+export interface DeliveryJob {
+  // Management API endpoint, resolved when the job was enqueued
+  endpoint: string;
+  connectionIds: string[];
+  payload: unknown;
+  attempt: number;
+}
+
+// Connections per queued job, keeping jobs well below the 256 KB SQS limit
+const DELIVERY_JOB_SIZE = 100;
+// Payloads larger than this are always sent inline
+const MAX_QUEUED_PAYLOAD_BYTES = 200 * 1024;
+
+export const outboundQueue = createQueue<DeliveryJob>(
+  "outbound",
+  config.outbound.queueUrl
+);
+// Without a dead-letter queue URL exhausted jobs are only logged: an
+// in-memory queue would lose them when the process exits or Lambda freezes
+const deadLetterQueue =
+  config.outbound.deadLetterQueueUrl &&
+  createSqsQueue<DeliveryJob>(config.outbound.deadLetterQueueUrl);
+
+/**
+ * Whether large broadcasts are queued. On Lambda they are only queued with an
+ * SQS queue, since in-memory jobs are lost when the function freezes.
+ */
+function isAsyncDelivery(): boolean {
+  return (
+    config.outbound.async &&
+    (!!config.outbound.queueUrl || !process.env.AWS_LAMBDA_FUNCTION_NAME)
+  );
+}
+
+if (config.outbound.async && !isAsyncDelivery()) {
+  console.warn(
+    "OUTBOUND_ASYNC needs OUTBOUND_QUEUE_URL on Lambda; broadcasts are delivered inline"
+  );
+}
+
+/**
+ * Close connections that turned out to be gone (410) while posting in one
+ * batch, releasing their slots and presence like a $disconnect would
+ */
+async function pruneConnections(connectionIds: string[]) {
+  try {
+    const changes = await connectionService.closeConnections(connectionIds);
+    for (const change of changes) {
+      await messageService.publishPresence(null, change);
+    }
+  } catch (error) {
+    // Pruning is best effort; the reaper and TTL clean up anything left behind
+    console.error("Error pruning stale connections:", error);
+  }
+}
+
+/**
+ * Post serialized data to many connections with bounded concurrency and
+ * prune the stale (410) ones in one batch once all posts finish
+ */
+async function deliver(
+  endpoint: string,
+  connectionIds: string[],
+  data: Buffer
+): Promise<BroadcastResult> {
+  const apiGatewayInstance = getApiGatewayForEndpoint(endpoint);
+
+  const results = await mapWithConcurrency(
+    connectionIds,
+    config.websocket.broadcastConcurrency,
+    async (connectionId) => ({
+      connectionId,
+      ...(await postToConnection(apiGatewayInstance, connectionId, data)),
+    })
+  );
+
+  const goneConnectionIds = results
+    .filter((result) => result.status === "gone")
+    .map((result) => result.connectionId);
+
+  if (goneConnectionIds.length > 0) {
+    await pruneConnections(goneConnectionIds);
+  }
+
+  return {
+    delivered: results.filter((result) => result.status === "delivered").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    pruned: goneConnectionIds.length,
+    queued: 0,
+    results,
+  };
+}
+
 /**
  * Message service for managing WebSocket communication
  */
 const messageService = {
   /**
    * Save a message to DynamoDB with automatic TTL
+   * Messages for a recipient start out pending in that user's undelivered queue;
+   * others are stored as sent.
    * @param connectionId - The WebSocket connection ID
    * @param content - The message content
    * @param sessionId - The session identifier (conversation ID)
    * @param metadata - Optional additional metadata
+   * @param recipientUserId - Optional user the message is addressed to
    * @returns The saved message
    */
   async saveMessage(
     connectionId: string,
     content: string,
     sessionId: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    recipientUserId?: string
   ): Promise<Message> {
     const now = Math.floor(Date.now() / 1000);
 
@@ -68,6 +352,12 @@ const messageService = {
       timestamp: Date.now(),
       ttl: now + MESSAGE_TTL_SECONDS, // Auto-expire after TTL period
       sessionId,
+      status: recipientUserId ? "pending" : "sent",
+      version: 1,
+      ...(recipientUserId && {
+        recipientUserId,
+        pendingUserId: recipientUserId,
+      }),
       ...(metadata && { metadata }),
     };
 
@@ -76,28 +366,38 @@ const messageService = {
   },
 
   /**
-   * Get messages for a specific session/conversation
+   * Get a page of messages for a specific session/conversation.
+   * Pages walk backwards from the newest message; each page is returned
+   * oldest first for conversation flow.
    * @param sessionId - The session/conversation ID
    * @param limit - Maximum number of messages to return
-   * @returns The session's messages
+   * @param cursor - Cursor returned with the previous page, to load older messages
+   * @returns The session's messages and the cursor of the next (older) page
    */
-  async getSessionMessages(sessionId: string, limit = 100): Promise<Message[]> {
-    return (await dynamoDbClient.query(
+  async getSessionMessages(
+    sessionId: string,
+    limit = 100,
+    cursor?: string
+  ): Promise<Page<Message>> {
+    const page = await dynamoDbClient.query<Message>(
       messagesTable,
       "sessionId = :sessionId",
       { ":sessionId": sessionId },
       {
-        IndexName: "sessionId-index",
+        IndexName: SESSION_INDEX,
         Limit: limit,
-        ScanIndexForward: true, // Sort by oldest first for conversation flow
+        ScanIndexForward: false, // Newest first, so the cursor leads to older messages
+        cursor,
       }
-    )) as Message[];
+    );
+
+    return { ...page, items: page.items.reverse() };
   },
 
   /**
    * Send a message to a client through WebSocket
    * Also acts as a heartbeat check for connection validity
-   * @param event - The API Gateway event for context
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
    * @param connectionId - The connection to send to
    * @param payload - The message payload
    * @returns Success status
@@ -106,33 +406,358 @@ const messageService = {
     event: any,
     connectionId: string,
     payload: any
+  ): Promise<boolean> {
+    const { status } = await postToConnection(
+      getApiGateway(event),
+      connectionId,
+      Buffer.from(JSON.stringify(payload))
+    );
+
+    if (status === "gone") {
+      // Connection is stale, close it along with its subscriptions
+      await pruneConnections([connectionId]);
+    }
+    return status === "delivered";
+  },
+
+  /**
+   * Ask API Gateway whether a connection is still open
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionId - The connection ID
+   * @returns When the connection was last active, or null if it's gone
+   */
+  async probeConnection(
+    event: any,
+    connectionId: string
+  ): Promise<Date | null> {
+    try {
+      const result = await getApiGateway(event).send(
+        new GetConnectionCommand({ ConnectionId: connectionId })
+      );
+      return result.LastActiveAt ?? result.ConnectedAt ?? new Date();
+    } catch (error: any) {
+      if (isGoneError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Close a connection from the server side. API Gateway then invokes
+   * $disconnect, which cleans up the connection's records.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionId - The connection ID
+   * @returns Whether the connection was still open
+   */
+  async disconnectConnection(
+    event: any,
+    connectionId: string
   ): Promise<boolean> {
     try {
-      const apiGatewayInstance = getApiGateway(event);
+      await getApiGateway(event).send(
+        new DeleteConnectionCommand({ ConnectionId: connectionId })
+      );
+      return true;
+    } catch (error: any) {
+      if (isGoneError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Send the same message to many connections with bounded concurrency.
+   * Stale (410) connections are pruned in one batch once all posts finish.
+   * With OUTBOUND_ASYNC enabled, large broadcasts are queued instead.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionIds - The connections to send to
+   * @param payload - The message payload
+   * @returns Delivery stats and per-connection results
+   */
+  async broadcast(
+    event: any,
+    connectionIds: string[],
+    payload: any
+  ): Promise<BroadcastResult> {
+    // Serialize once for every recipient
+    const data = Buffer.from(JSON.stringify(payload));
+
+    if (
+      isAsyncDelivery() &&
+      connectionIds.length >= config.outbound.asyncThreshold &&
+      data.length <= MAX_QUEUED_PAYLOAD_BYTES
+    ) {
+      return await this.enqueueBroadcast(event, connectionIds, payload);
+    }
 
-      const command = new PostToConnectionCommand({
-        ConnectionId: connectionId,
-        Data: Buffer.from(JSON.stringify(payload)),
+    return await deliver(getCallbackUrl(event), connectionIds, data);
+  },
+
+  /**
+   * Queue a message for many connections, to be delivered by the outbound
+   * queue consumer instead of within the current request
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionIds - The connections to send to
+   * @param payload - The message payload
+   * @returns Stats with every connection counted as queued
+   */
+  async enqueueBroadcast(
+    event: any,
+    connectionIds: string[],
+    payload: any
+  ): Promise<BroadcastResult> {
+    const endpoint = getCallbackUrl(event);
+    const jobs: DeliveryJob[] = [];
+    for (let i = 0; i < connectionIds.length; i += DELIVERY_JOB_SIZE) {
+      jobs.push({
+        endpoint,
+        connectionIds: connectionIds.slice(i, i + DELIVERY_JOB_SIZE),
+        payload,
+        attempt: 1,
       });
+    }
+
+    await outboundQueue.send(jobs);
+    return {
+      delivered: 0,
+      failed: 0,
+      pruned: 0,
+      queued: connectionIds.length,
+      results: [],
+    };
+  },
+
+  /**
+   * Deliver a queued job. Connections that still fail after the post
+   * retries are queued again with a growing delay, and the job is sent to
+   * the dead-letter queue once it runs out of attempts.
+   * @param job - The queued delivery
+   * @returns Delivery stats for this attempt
+   */
+  async processDelivery(job: DeliveryJob): Promise<BroadcastResult> {
+    const result = await deliver(
+      job.endpoint,
+      job.connectionIds,
+      Buffer.from(JSON.stringify(job.payload))
+    );
+
+    const failedConnectionIds = result.results
+      .filter((delivery) => delivery.status === "failed")
+      .map((delivery) => delivery.connectionId);
 
-      await apiGatewayInstance.send(command);
+    if (failedConnectionIds.length > 0) {
+      const retry = { ...job, connectionIds: failedConnectionIds };
+      if (job.attempt < config.outbound.maxAttempts) {
+        await outboundQueue.send(
+          [{ ...retry, attempt: job.attempt + 1 }],
+          Math.min(2 ** job.attempt, 900)
+        );
+      } else {
+        console.error("Delivery job exhausted its attempts:", {
+          attempt: job.attempt,
+          failed: failedConnectionIds.length,
+          // Logged in full when there is no dead-letter queue to keep them
+          ...(!deadLetterQueue && {
+            endpoint: job.endpoint,
+            connectionIds: failedConnectionIds,
+          }),
+        });
+        if (deadLetterQueue) {
+          await deadLetterQueue.send([retry]);
+        }
+      }
+    }
 
+    return result;
+  },
+
+  /**
+   * Send a message to every connection of a user (all of their devices)
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param userId - The user to send to
+   * @param payload - The message payload
+   * @returns Delivery stats for the user's connections
+   */
+  async sendToUser(
+    event: any,
+    userId: string,
+    payload: any
+  ): Promise<BroadcastResult> {
+    const connections = await connectionService.getConnectionsForUser(userId);
+
+    return await this.broadcast(
+      event,
+      connections.map((connection) => connection.connectionId),
+      payload
+    );
+  },
+
+  /**
+   * Send a message to every connection subscribed to a channel
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param channel - The channel (room) to broadcast to
+   * @param payload - The message payload
+   * @param excludeConnectionId - Optional connection to skip (usually the sender)
+   * @returns Delivery stats for the channel's connections
+   */
+  async broadcastToChannel(
+    event: any,
+    channel: string,
+    payload: any,
+    excludeConnectionId?: string
+  ): Promise<BroadcastResult> {
+    const connectionIds = await subscriptionService.getChannelConnections(
+      channel
+    );
+
+    return await this.broadcast(
+      event,
+      connectionIds.filter(
+        (connectionId) => connectionId !== excludeConnectionId
+      ),
+      payload
+    );
+  },
+
+  /**
+   * Send a presence change to the connections subscribed to the user
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param change - The change, or null if there is nothing to publish
+   */
+  async publishPresence(
+    event: any,
+    change: PresenceChange | null
+  ): Promise<void> {
+    if (!change) {
+      return;
+    }
+    await this.broadcastToChannel(event, presenceChannel(change.userId), {
+      type: "presence",
+      ...change,
+    });
+  },
+
+  /**
+   * Mark a pending message as delivered, removing it from the undelivered queue.
+   * Conditional on the message still being pending, so a message is only
+   * marked (and counted) once.
+   * @param messageId - The message ID
+   * @returns Whether this call moved the message out of the pending state
+   */
+  async markDelivered(messageId: string): Promise<boolean> {
+    try {
+      await dynamoDbClient.updateItem(
+        messagesTable,
+        { id: messageId },
+        "SET #status = :delivered, deliveredAt = :now REMOVE pendingUserId",
+        {
+          ":delivered": "delivered",
+          ":pending": "pending",
+          ":now": Date.now(),
+        },
+        {
+          ConditionExpression: "#status = :pending",
+          ExpressionAttributeNames: { "#status": "status" },
+        }
+      );
       return true;
     } catch (error: any) {
-      if (
-        error.name === "GoneException" ||
-        error.$metadata?.httpStatusCode === 410
-      ) {
-        // Connection is stale, remove it
-        await connectionService.removeConnection(connectionId);
+      if (error.name === "ConditionalCheckFailedException") {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Mark messages as acknowledged by their recipient.
+   * Messages addressed to other users are ignored.
+   * @param userId - The acknowledging user
+   * @param messageIds - The acknowledged message IDs
+   * @returns The number of messages acknowledged
+   */
+  async acknowledgeMessages(
+    userId: string,
+    messageIds: string[]
+  ): Promise<number> {
+    const results = await Promise.all(
+      messageIds.map(async (messageId) => {
+        try {
+          await dynamoDbClient.updateItem(
+            messagesTable,
+            { id: messageId },
+            "SET #status = :acknowledged, acknowledgedAt = :now REMOVE pendingUserId",
+            {
+              ":acknowledged": "acknowledged",
+              ":userId": userId,
+              ":now": Date.now(),
+            },
+            {
+              ConditionExpression: "recipientUserId = :userId",
+              ExpressionAttributeNames: { "#status": "status" },
+            }
+          );
+          return true;
+        } catch (error: any) {
+          if (error.name === "ConditionalCheckFailedException") {
+            return false;
+          }
+          throw error;
+        }
+      })
+    );
+
+    return results.filter(Boolean).length;
+  },
+
+  /**
+   * Deliver a user's undelivered messages to one of their connections,
+   * oldest first. A message is only marked delivered once it was posted, so
+   * none are lost if the connection goes away mid-flush; the flush stops at
+   * the first failed post to preserve ordering. Concurrent flushes can post a
+   * message twice, so clients should ignore message IDs they already have.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionId - The connection to deliver to
+   * @param userId - The user whose queue to flush
+   * @returns The number of messages delivered
+   */
+  async flushUndelivered(
+    event: any,
+    connectionId: string,
+    userId: string
+  ): Promise<number> {
+    let flushed = 0;
+
+    for await (const message of dynamoDbClient.iterateQuery<Message>(
+      messagesTable,
+      "pendingUserId = :userId",
+      { ":userId": userId },
+      { IndexName: PENDING_INDEX, ScanIndexForward: true }
+    )) {
+      const success = await this.sendToClient(
+        event,
+        connectionId,
+        toClientPayload(message)
+      );
+      if (!success) {
+        break;
+      }
+
+      // Another flush may have delivered it in the meantime
+      if (await this.markDelivered(message.id)) {
+        flushed++;
       }
-      return false;
     }
+
+    return flushed;
   },
 
   /**
-   * Persist a message to the database and send it to the client
-   * @param event - The API Gateway event for context
+   * Persist a message to the database and send it to the client.
+   * If the client can't be reached the message stays queued for its user.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
    * @param connectionId - The connection to send to
    * @param content - The message content
    * @param sessionId - The session identifier
@@ -147,21 +772,27 @@ const messageService = {
     metadata?: Record<string, any>
   ): Promise<Message | null> {
     try {
+      // Queue the message for the connection's user in case it is offline
+      const connection = await connectionService.getConnection(connectionId);
+
       // Save message to database
       const message = await this.saveMessage(
         connectionId,
         content,
         sessionId,
-        metadata
+        metadata,
+        connection?.userId
       );
 
       // Send message to client
-      const success = await this.sendToClient(event, connectionId, {
-        messageId: message.id,
-        content,
-        timestamp: message.timestamp,
-        ...(metadata && { metadata }),
-      });
+      const success = await this.sendToClient(
+        event,
+        connectionId,
+        toClientPayload(message)
+      );
+      if (success) {
+        await this.markDelivered(message.id);
+      }
 
       return success ? message : null;
     } catch (error) {
@@ -169,6 +800,413 @@ const messageService = {
       return null;
     }
   },
+
+  /**
+   * Persist a message for a user and send it to all of their connections.
+   * If the user has no live connection the message stays in their
+   * undelivered queue until they reconnect and sync.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionId - The connection the message originates from
+   * @param userId - The recipient user
+   * @param content - The message content
+   * @param sessionId - The session identifier
+   * @param metadata - Optional additional metadata
+   * @returns The saved message, whether or not it was delivered yet
+   */
+  async persistAndSendToUser(
+    event: any,
+    connectionId: string,
+    userId: string,
+    content: string,
+    sessionId: string,
+    metadata?: Record<string, any>
+  ): Promise<Message> {
+    const message = await this.saveMessage(
+      connectionId,
+      content,
+      sessionId,
+      metadata,
+      userId
+    );
+
+    const result = await this.sendToUser(
+      event,
+      userId,
+      toClientPayload(message)
+    );
+    // Queued deliveries are posted by the outbound consumer, so the message
+    // has been handed off either way
+    if (result.delivered > 0 || result.queued > 0) {
+      await this.markDelivered(message.id);
+    }
+
+    return message;
+  },
+
+  /**
+   * Persist a message in a session and deliver it live to every connection
+   * of every member (including the sender's other devices).
+   * Members who are offline load it from the session history.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param connectionId - The connection the message originates from
+   * @param userId - The sending user, who must be a member of the session
+   * @param sessionId - The session identifier
+   * @param content - The message content
+   * @param metadata - Optional additional metadata
+   * @returns The saved message and delivery stats
+   */
+  async sendToSession(
+    event: any,
+    connectionId: string,
+    userId: string,
+    sessionId: string,
+    content: string,
+    metadata?: Record<string, any>
+  ): Promise<{ message: Message; delivery: BroadcastResult }> {
+    await sessionService.assertMember(sessionId, userId);
+
+    const message = await this.saveMessage(connectionId, content, sessionId, {
+      ...metadata,
+      senderId: userId,
+    });
+
+    const delivery = await this.broadcastToSession(event, sessionId, {
+      type: "session.message",
+      ...toClientPayload(message),
+    });
+
+    return { message, delivery };
+  },
+
+  /**
+   * Send a payload to the connections of every member of a session
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param sessionId - The session identifier
+   * @param payload - The payload to send
+   * @param excludeConnectionId - Optional connection to skip (usually the sender)
+   * @returns Delivery stats across the members' connections
+   */
+  async broadcastToSession(
+    event: any,
+    sessionId: string,
+    payload: any,
+    excludeConnectionId?: string
+  ): Promise<BroadcastResult> {
+    const memberIds = await sessionService.getMemberIds(sessionId);
+    const connections = (
+      await Promise.all(
+        memberIds.map((memberId) =>
+          connectionService.getConnectionsForUser(memberId)
+        )
+      )
+    ).flat();
+
+    return await this.broadcast(
+      event,
+      connections
+        .map((connection) => connection.connectionId)
+        .filter((connectionId) => connectionId !== excludeConnectionId),
+      payload
+    );
+  },
+
+  /**
+   * Count the messages in a session a user hasn't read yet, ignoring their
+   * own and deleted messages. Counting stops at MAX_UNREAD_COUNT.
+   * @param sessionId - The session identifier
+   * @param userId - The user ID
+   * @param lastReadTimestamp - Timestamp of the last message the user read, if any
+   * @returns The number of unread messages
+   */
+  async getUnreadCount(
+    sessionId: string,
+    userId: string,
+    lastReadTimestamp = 0
+  ): Promise<number> {
+    let count = 0;
+    for await (const _message of dynamoDbClient.iterateQuery(
+      messagesTable,
+      "sessionId = :sessionId AND #timestamp > :lastRead",
+      {
+        ":sessionId": sessionId,
+        ":lastRead": lastReadTimestamp,
+        ":userId": userId,
+      },
+      {
+        IndexName: SESSION_INDEX,
+        FilterExpression:
+          "attribute_not_exists(deletedAt) AND (attribute_not_exists(metadata.senderId) OR metadata.senderId <> :userId)",
+        ExpressionAttributeNames: { "#timestamp": "timestamp" },
+        ProjectionExpression: "id",
+      }
+    )) {
+      if (++count >= MAX_UNREAD_COUNT) {
+        break;
+      }
+    }
+    return count;
+  },
+
+  /**
+   * Get a message by ID
+   * @param messageId - The message ID
+   * @returns The message
+   * @throws AppError if the message doesn't exist
+   */
+  async getMessage(messageId: string): Promise<Message> {
+    const message = await dynamoDbClient.getItem<Message>(messagesTable, {
+      id: messageId,
+    });
+    if (!message) {
+      throw new AppError("Message not found", 404, "MESSAGE_NOT_FOUND");
+    }
+    return message;
+  },
+
+  /**
+   * Get a message its sender is about to change, checking the sender and
+   * the version the client last saw
+   * @param messageId - The message ID
+   * @param userId - The user changing the message
+   * @param expectedVersion - Optional version the client last saw
+   * @returns The current message
+   */
+  async getOwnMessage(
+    messageId: string,
+    userId: string,
+    expectedVersion?: number
+  ): Promise<Message> {
+    const message = await this.getMessage(messageId);
+
+    if (message.metadata?.senderId !== userId) {
+      throw new AppError(
+        "Only the sender can change this message",
+        403,
+        "NOT_MESSAGE_SENDER"
+      );
+    }
+    if (message.deletedAt) {
+      throw new AppError("Message has been deleted", 410, "MESSAGE_DELETED");
+    }
+    if (
+      expectedVersion !== undefined &&
+      expectedVersion !== (message.version ?? 1)
+    ) {
+      throw new AppError(
+        "Message was changed by another request",
+        409,
+        "VERSION_CONFLICT"
+      );
+    }
+    return message;
+  },
+
+  /**
+   * Edit the content of a message, keeping the previous content in its
+   * edit history (the most recent revisions only), and notify the session's
+   * members.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param userId - The editing user, who must have sent the message
+   * @param messageId - The message ID
+   * @param content - The new content
+   * @param expectedVersion - Optional version the edit is based on; the edit
+   * fails with VERSION_CONFLICT if the message has changed since
+   * @returns The updated message
+   */
+  async editMessage(
+    event: any,
+    userId: string,
+    messageId: string,
+    content: string,
+    expectedVersion?: number
+  ): Promise<Message> {
+    const message = await this.getOwnMessage(
+      messageId,
+      userId,
+      expectedVersion
+    );
+    const version = message.version ?? 1;
+    const now = Date.now();
+    const { ConditionExpression, values } = versionCondition(version);
+    // The update is conditional on the version read, so the history can be
+    // rewritten from the copy read along with it
+    const editHistory = trimEditHistory([
+      ...(message.editHistory ?? []),
+      {
+        content: message.content,
+        version,
+        editedAt: message.editedAt ?? message.timestamp,
+      },
+    ]);
+
+    const updated = await this.updateVersioned(
+      messageId,
+      "SET content = :content, editedAt = :now, version = :nextVersion, editHistory = :editHistory",
+      {
+        ...values,
+        ":content": content,
+        ":now": now,
+        ":editHistory": editHistory,
+      },
+      ConditionExpression
+    );
+
+    await this.broadcastToSession(event, updated.sessionId, {
+      type: "message.updated",
+      ...toClientPayload(updated),
+    });
+    return updated;
+  },
+
+  /**
+   * Soft-delete a message and notify the session's members. The message
+   * stays in the session history with its content removed.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param userId - The deleting user, who must have sent the message
+   * @param messageId - The message ID
+   * @param expectedVersion - Optional version the deletion is based on
+   * @returns The deleted message
+   */
+  async deleteMessage(
+    event: any,
+    userId: string,
+    messageId: string,
+    expectedVersion?: number
+  ): Promise<Message> {
+    const message = await this.getOwnMessage(
+      messageId,
+      userId,
+      expectedVersion
+    );
+    const { ConditionExpression, values } = versionCondition(
+      message.version ?? 1
+    );
+
+    const deleted = await this.updateVersioned(
+      messageId,
+      "SET content = :empty, deletedAt = :now, version = :nextVersion REMOVE editHistory",
+      { ...values, ":empty": "", ":now": Date.now() },
+      ConditionExpression
+    );
+
+    await this.broadcastToSession(event, deleted.sessionId, {
+      type: "message.deleted",
+      ...toClientPayload(deleted),
+    });
+    return deleted;
+  },
+
+  /**
+   * Add or remove a user's reaction to a message and notify the session's
+   * members. Concurrent reactions are retried against the latest version.
+   * @param event - The API Gateway event for context, or null to use WEBSOCKET_CALLBACK_URL
+   * @param userId - The reacting user, who must be a member of the session
+   * @param messageId - The message ID
+   * @param emoji - The reaction
+   * @param remove - Whether to remove the reaction instead of adding it
+   * @returns The updated message
+   */
+  async reactToMessage(
+    event: any,
+    userId: string,
+    messageId: string,
+    emoji: string,
+    remove = false
+  ): Promise<Message> {
+    for (let attempt = 1; ; attempt++) {
+      const message = await this.getMessage(messageId);
+      if (message.deletedAt) {
+        throw new AppError("Message has been deleted", 410, "MESSAGE_DELETED");
+      }
+      await sessionService.assertMember(message.sessionId, userId);
+
+      const reactions: Record<string, string[]> = { ...message.reactions };
+      const userIds = reactions[emoji] ?? [];
+      if (userIds.includes(userId) !== remove) {
+        return message; // Nothing to change
+      }
+
+      if (!remove) {
+        reactions[emoji] = [...userIds, userId];
+      } else if (userIds.length > 1) {
+        reactions[emoji] = userIds.filter((id) => id !== userId);
+      } else {
+        delete reactions[emoji];
+      }
+
+      const { ConditionExpression, values } = versionCondition(
+        message.version ?? 1
+      );
+
+      try {
+        const updated = await this.updateVersioned(
+          messageId,
+          "SET reactions = :reactions, version = :nextVersion",
+          { ...values, ":reactions": reactions },
+          ConditionExpression
+        );
+
+        await this.broadcastToSession(event, updated.sessionId, {
+          type: "message.reaction",
+          messageId,
+          sessionId: updated.sessionId,
+          version: updated.version,
+          reactions: updated.reactions,
+        });
+        return updated;
+      } catch (error) {
+        const conflict =
+          error instanceof AppError && error.errorCode === "VERSION_CONFLICT";
+        if (!conflict || attempt >= MAX_REACTION_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  },
+
+  /**
+   * Apply an update guarded by the message's version
+   * @param messageId - The message ID
+   * @param updateExpression - The update expression
+   * @param values - Expression attribute values
+   * @param conditionExpression - Condition on the message's current version
+   * @returns The updated message
+   * @throws AppError with VERSION_CONFLICT if the message changed in between
+   */
+  async updateVersioned(
+    messageId: string,
+    updateExpression: string,
+    values: Record<string, any>,
+    conditionExpression: string
+  ): Promise<Message> {
+    try {
+      const updated = await dynamoDbClient.updateItem<Message>(
+        messagesTable,
+        { id: messageId },
+        updateExpression,
+        values,
+        { ConditionExpression: conditionExpression }
+      );
+      return updated as Message;
+    } catch (error: any) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw new AppError(
+          "Message was changed by another request",
+          409,
+          "VERSION_CONFLICT"
+        );
+      }
+      throw error;
+    }
+  },
 };
 
+// Locally the outbound queue runs in-process; on Lambda, SQS invokes the
+// consumer registered in lambda.ts
+if ("consume" in outboundQueue) {
+  outboundQueue.consume(async (job) => {
+    await messageService.processDelivery(job);
+  });
+}
+
 export default messageService;
@@ -0,0 +1,129 @@
+// services/presenceService.test.ts
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dynamoDbClient from "./dynamoDbClient";
+import sessionService from "./sessionService";
+import presenceService, { authorizePresence } from "./presenceService";
+import { getPrincipal } from "../middleware/authorization";
+
+const now = 1_000_000;
+
+function conditionFailed() {
+  return Object.assign(new Error("The conditional request failed"), {
+    name: "ConditionalCheckFailedException",
+  });
+}
+
+beforeEach(() => {
+  mock.method(Date, "now", () => now);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("presenceService.getPresence", () => {
+  it("shows users whose count lapsed as offline", async () => {
+    mock.method(dynamoDbClient, "batchGet", async () => [
+      { userId: "u1", connectionCount: 1, expiresAt: now + 1 },
+      { userId: "u2", connectionCount: 1, expiresAt: now - 1 },
+    ]);
+
+    const presence = await presenceService.getPresence(["u1", "u2"]);
+    assert.deepEqual(
+      presence.map(({ status }) => status),
+      ["online", "offline"]
+    );
+  });
+});
+
+describe("presenceService.touch", () => {
+  it("extends a live count", async () => {
+    const updateItem = mock.method(dynamoDbClient, "updateItem", async () => ({
+      userId: "u1",
+      connectionCount: 1,
+    }));
+
+    assert.equal(await presenceService.touch("u1"), null);
+    assert.equal(updateItem.mock.callCount(), 1);
+  });
+
+  it("counts the connection again after a reset", async () => {
+    let calls = 0;
+    mock.method(dynamoDbClient, "updateItem", async () => {
+      if (calls++ === 0) {
+        throw conditionFailed();
+      }
+      return { userId: "u1", connectionCount: 1 };
+    });
+
+    const change = await presenceService.touch("u1");
+    assert.equal(change.status, "online");
+    assert.equal(change.previousStatus, "offline");
+  });
+});
+
+describe("presenceService.resetExpired", () => {
+  it("resets lapsed counts and reports the users as offline", async () => {
+    mock.method(dynamoDbClient, "iterateScan", async function* () {
+      yield { userId: "u1", connectionCount: 2, explicitStatus: "away" };
+      yield { userId: "u2", connectionCount: 1 };
+    });
+    mock.method(
+      dynamoDbClient,
+      "updateItem",
+      async (table: string, key: { userId: string }) => {
+        if (key.userId === "u2") {
+          // Touched since the scan
+          throw conditionFailed();
+        }
+        return { userId: key.userId, connectionCount: 0, lastSeen: 500 };
+      }
+    );
+
+    const changes = await presenceService.resetExpired();
+    assert.deepEqual(changes, [
+      {
+        userId: "u1",
+        status: "offline",
+        lastSeen: 500,
+        previousStatus: "away",
+      },
+    ]);
+  });
+});
+
+describe("authorizePresence", () => {
+  function stubSessions(membersBySession: Record<string, string[]>) {
+    const getUserSessionIds = mock.method(
+      sessionService,
+      "getUserSessionIds",
+      async () => Object.keys(membersBySession)
+    );
+    mock.method(
+      sessionService,
+      "isMemberOfAny",
+      async (sessionIds: string[], userId: string) =>
+        sessionIds.some((sessionId) =>
+          membersBySession[sessionId].includes(userId)
+        )
+    );
+    return getUserSessionIds;
+  }
+
+  it("allows users who share a session", async () => {
+    const getUserSessionIds = stubSessions({ s1: ["u1", "u2"] });
+
+    await authorizePresence(getPrincipal({ sub: "u1" }), ["u1", "u2"]);
+    assert.equal(getUserSessionIds.mock.callCount(), 1);
+  });
+
+  it("rejects users who don't share a session", async () => {
+    stubSessions({ s1: ["u1", "u2"] });
+
+    await assert.rejects(
+      authorizePresence(getPrincipal({ sub: "u1" }), ["u2", "u3"]),
+      { errorCode: "FORBIDDEN" }
+    );
+  });
+});
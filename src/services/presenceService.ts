@@ -0,0 +1,303 @@
+// services/presenceService.ts
+// Purpose: Tracks which users are online across all of their connections
+import dynamoDbClient from "./dynamoDbClient";
+import sessionService from "./sessionService";
+import config from "../config/config";
+import {
+  authorizeChannel,
+  defineChannelPolicy,
+  Principal,
+} from "../middleware/authorization";
+
+const presenceTable = config.aws.dynamodb.tableNames.presence;
+
+const PRESENCE_CHANNEL_PREFIX = "presence:";
+
+export type PresenceStatus = "online" | "offline" | "away" | "dnd";
+
+// Statuses a user can choose; "online" clears a chosen status
+export type SelectableStatus = "online" | "away" | "dnd";
+
+/**
+ * Presence record stored per user
+ */
+interface PresenceRecord {
+  userId: string;
+  // Number of open connections across devices and transports
+  connectionCount?: number;
+  // Status chosen by the user, shown while they have a connection open
+  explicitStatus?: "away" | "dnd";
+  lastSeen?: number;
+  updatedAt?: number;
+  // The count lapses unless a connection heartbeats before this (ms)
+  expiresAt?: number;
+}
+
+export interface Presence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen?: number;
+}
+
+/**
+ * A change of a user's status, published to their presence channel
+ */
+export interface PresenceChange extends Presence {
+  previousStatus: PresenceStatus;
+}
+
+/**
+ * Name of the channel (room) that receives a user's presence changes
+ * @param userId - The user ID
+ */
+export function presenceChannel(userId: string): string {
+  return `${PRESENCE_CHANNEL_PREFIX}${userId}`;
+}
+
+// Sessions of each principal, looked up once per request
+const principalSessionIds = new WeakMap<Principal, Promise<string[]>>();
+
+/**
+ * Whether a principal may see a user's presence: their own, or that of
+ * someone they share a session with
+ */
+async function sharesSession(
+  principal: Principal,
+  userId: string
+): Promise<boolean> {
+  if (principal.userId === userId) {
+    return true;
+  }
+
+  let sessionIds = principalSessionIds.get(principal);
+  if (!sessionIds) {
+    sessionIds = sessionService.getUserSessionIds(principal.userId);
+    principalSessionIds.set(principal, sessionIds);
+  }
+  return await sessionService.isMemberOfAny(await sessionIds, userId);
+}
+
+// With PRESENCE_VISIBILITY=public anyone signed in may watch anyone, or the
+// app can define its own policy for "presence:*"
+if (config.presence.visibility === "sessions") {
+  defineChannelPolicy(`${PRESENCE_CHANNEL_PREFIX}*`, {
+    allow: (principal, { channel }) =>
+      sharesSession(principal, channel.slice(PRESENCE_CHANNEL_PREFIX.length)),
+  });
+}
+
+/**
+ * Check that a principal may see the presence of every given user, through
+ * the policy of their presence channels
+ * @param principal - The authenticated user
+ * @param userIds - The users to look up or subscribe to
+ * @param socketId - The connection the request came from
+ * @throws AuthError with a FORBIDDEN code if any user is off limits
+ */
+export async function authorizePresence(
+  principal: Principal | undefined,
+  userIds: string[],
+  socketId?: string
+): Promise<void> {
+  await Promise.all(
+    Array.from(new Set(userIds)).map((userId) =>
+      authorizeChannel(principal, presenceChannel(userId), socketId)
+    )
+  );
+}
+
+/**
+ * Derive the status shown to other users from a presence record
+ */
+function toPresence(userId: string, record?: PresenceRecord): Presence {
+  const online =
+    (record?.connectionCount ?? 0) > 0 &&
+    !(record?.expiresAt && record.expiresAt <= Date.now());
+  return {
+    userId,
+    status: online ? record?.explicitStatus ?? "online" : "offline",
+    ...(record?.lastSeen && { lastSeen: record.lastSeen }),
+  };
+}
+
+/**
+ * Presence service. A user is online while they have at least one open
+ * connection on either transport; connections are counted atomically so
+ * the first open and last close can be detected. Live connections keep the
+ * count alive with heartbeats, so a count left behind by a crashed process
+ * or a missed release lapses and is reset by the reaper.
+ */
+const presenceService = {
+  /**
+   * Record a newly opened connection for a user
+   * @param userId - The user ID
+   * @returns The change if this was the user's first connection, otherwise null
+   */
+  async connect(userId: string): Promise<PresenceChange | null> {
+    const record = await dynamoDbClient.updateItem<PresenceRecord>(
+      presenceTable,
+      { userId },
+      "ADD connectionCount :one SET lastSeen = :now, expiresAt = :expiresAt",
+      {
+        ":one": 1,
+        ":now": Date.now(),
+        ":expiresAt": Date.now() + config.presence.ttlMs,
+      }
+    );
+
+    if (record?.connectionCount !== 1) {
+      return null;
+    }
+    return { ...toPresence(userId, record), previousStatus: "offline" };
+  },
+
+  /**
+   * Record a closed connection for a user
+   * @param userId - The user ID
+   * @returns The change if this was the user's last connection, otherwise null
+   */
+  async disconnect(userId: string): Promise<PresenceChange | null> {
+    let record: PresenceRecord | undefined;
+    try {
+      record = await dynamoDbClient.updateItem<PresenceRecord>(
+        presenceTable,
+        { userId },
+        "ADD connectionCount :minusOne SET lastSeen = :now",
+        { ":minusOne": -1, ":now": Date.now(), ":zero": 0 },
+        { ConditionExpression: "connectionCount > :zero" }
+      );
+    } catch (error: any) {
+      // Already counted as offline (e.g. a duplicate disconnect)
+      if (error.name === "ConditionalCheckFailedException") {
+        return null;
+      }
+      throw error;
+    }
+
+    if ((record?.connectionCount ?? 0) > 0) {
+      return null;
+    }
+    return {
+      ...toPresence(userId, record),
+      previousStatus: record?.explicitStatus ?? "online",
+    };
+  },
+
+  /**
+   * Keep a connected user's count alive. If the count was already reset
+   * (e.g. the heartbeats were late), the connection is counted again.
+   * @param userId - The user ID
+   * @returns The change if the user came back online, otherwise null
+   */
+  async touch(userId: string): Promise<PresenceChange | null> {
+    try {
+      await dynamoDbClient.updateItem(
+        presenceTable,
+        { userId },
+        "SET expiresAt = :expiresAt",
+        { ":expiresAt": Date.now() + config.presence.ttlMs, ":zero": 0 },
+        { ConditionExpression: "connectionCount > :zero" }
+      );
+      return null;
+    } catch (error: any) {
+      if (error.name !== "ConditionalCheckFailedException") {
+        throw error;
+      }
+    }
+    return await this.connect(userId);
+  },
+
+  /**
+   * Reset the counts that no connection kept alive, e.g. those of sockets
+   * on a process that crashed
+   * @returns The changes of the users who went offline
+   */
+  async resetExpired(): Promise<PresenceChange[]> {
+    const now = Date.now();
+    // Records written before heartbeats have no expiresAt
+    const condition =
+      "connectionCount > :zero AND (attribute_not_exists(expiresAt) OR expiresAt < :now)";
+    const changes: PresenceChange[] = [];
+
+    for await (const record of dynamoDbClient.iterateScan<PresenceRecord>(
+      presenceTable,
+      {
+        FilterExpression: condition,
+        ExpressionAttributeValues: { ":zero": 0, ":now": now },
+      }
+    )) {
+      try {
+        const updated = await dynamoDbClient.updateItem<PresenceRecord>(
+          presenceTable,
+          { userId: record.userId },
+          "SET connectionCount = :zero",
+          { ":zero": 0, ":now": now },
+          { ConditionExpression: condition }
+        );
+        changes.push({
+          ...toPresence(record.userId, updated),
+          previousStatus: record.explicitStatus ?? "online",
+        });
+      } catch (error: any) {
+        // A heartbeat or a new connection got there first
+        if (error.name !== "ConditionalCheckFailedException") {
+          throw error;
+        }
+      }
+    }
+    return changes;
+  },
+
+  /**
+   * Set the status a user has chosen
+   * @param userId - The user ID
+   * @param status - "away", "dnd", or "online" to clear the chosen status
+   * @returns The change, or null if the status shown to others is unchanged
+   */
+  async setStatus(
+    userId: string,
+    status: SelectableStatus
+  ): Promise<PresenceChange | null> {
+    const previous = toPresence(
+      userId,
+      await dynamoDbClient.getItem<PresenceRecord>(presenceTable, { userId })
+    );
+
+    const record = await dynamoDbClient.updateItem<PresenceRecord>(
+      presenceTable,
+      { userId },
+      status === "online"
+        ? "SET updatedAt = :now REMOVE explicitStatus"
+        : "SET updatedAt = :now, explicitStatus = :status",
+      {
+        ":now": Date.now(),
+        ...(status !== "online" && { ":status": status }),
+      }
+    );
+
+    const presence = toPresence(userId, record);
+    if (presence.status === previous.status) {
+      return null;
+    }
+    return { ...presence, previousStatus: previous.status };
+  },
+
+  /**
+   * Get the presence of several users; unknown users are offline
+   * @param userIds - The user IDs
+   * @returns The users' presence, in the order requested
+   */
+  async getPresence(userIds: string[]): Promise<Presence[]> {
+    const records = await dynamoDbClient.batchGet<PresenceRecord>(
+      presenceTable,
+      Array.from(new Set(userIds)).map((userId) => ({ userId }))
+    );
+    const recordsById = new Map(
+      records.map((record) => [record.userId, record])
+    );
+
+    return userIds.map((userId) => toPresence(userId, recordsById.get(userId)));
+  },
+};
+
+export default presenceService;
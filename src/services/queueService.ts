@@ -0,0 +1,163 @@
+// services/queueService.ts
+// Purpose: Minimal queue abstraction - SQS in production, in-memory for local development
+import {
+  SQSClient,
+  SendMessageBatchCommand,
+  SendMessageBatchRequestEntry,
+} from "@aws-sdk/client-sqs";
+import config from "../config/config";
+import { sleep } from "../utils/concurrency";
+
+// SendMessageBatch accepts at most 10 entries
+const SQS_BATCH_LIMIT = 10;
+
+// Retry settings for in-memory jobs whose handler throws
+const MEMORY_MAX_ATTEMPTS = 3;
+const MEMORY_BASE_DELAY_MS = 200;
+// Only the most recent dead-lettered in-memory jobs are kept
+const MEMORY_MAX_DEAD_LETTERS = 100;
+
+/**
+ * A queue of JSON-serializable jobs
+ */
+export interface Queue<T> {
+  // The queue name, as used to register its consumer
+  readonly name: string;
+  /**
+   * Enqueue jobs
+   * @param jobs - The jobs to enqueue
+   * @param delaySeconds - Optional delay before the jobs become visible
+   */
+  send(jobs: T[], delaySeconds?: number): Promise<void>;
+}
+
+/**
+ * In-memory queue that runs jobs in the current process. Jobs whose
+ * handler keeps throwing are logged and kept in `deadLetters`.
+ */
+export interface MemoryQueue<T> extends Queue<T> {
+  readonly deadLetters: T[];
+  /**
+   * Start handling jobs, including any enqueued before
+   * @param handler - The job handler
+   */
+  consume(handler: (job: T) => Promise<void>): void;
+}
+
+let sqsClient: SQSClient | undefined;
+
+function getSqsClient() {
+  if (!sqsClient) {
+    sqsClient = new SQSClient({ region: config.aws.region });
+  }
+  return sqsClient;
+}
+
+/**
+ * Create a queue backed by SQS. Retries and dead-lettering of jobs whose
+ * consumer fails are handled by the queue's redrive policy.
+ * @param queueUrl - The SQS queue URL
+ */
+export function createSqsQueue<T>(queueUrl: string): Queue<T> {
+  return {
+    name: queueUrl.split("/").pop() as string,
+
+    async send(jobs, delaySeconds) {
+      for (let i = 0; i < jobs.length; i += SQS_BATCH_LIMIT) {
+        const entries: SendMessageBatchRequestEntry[] = jobs
+          .slice(i, i + SQS_BATCH_LIMIT)
+          .map((job, index) => ({
+            Id: String(index),
+            MessageBody: JSON.stringify(job),
+            ...(delaySeconds && { DelaySeconds: delaySeconds }),
+          }));
+
+        let failed;
+        try {
+          const result = await getSqsClient().send(
+            new SendMessageBatchCommand({
+              QueueUrl: queueUrl,
+              Entries: entries,
+            })
+          );
+          failed = result.Failed;
+        } catch (error) {
+          console.error("Error enqueuing jobs:", error);
+          throw new Error("Failed to enqueue jobs");
+        }
+
+        if (failed?.length) {
+          console.error("Error enqueuing jobs:", failed);
+          throw new Error("Failed to enqueue jobs");
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Create a queue that runs jobs asynchronously in the current process
+ * @param name - The queue name
+ */
+export function createMemoryQueue<T>(name: string): MemoryQueue<T> {
+  const pending: T[] = [];
+  const deadLetters: T[] = [];
+  let handler: ((job: T) => Promise<void>) | undefined;
+
+  async function run(job: T) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await handler!(job);
+        return;
+      } catch (error) {
+        if (attempt >= MEMORY_MAX_ATTEMPTS) {
+          console.error(`Job dead-lettered on queue "${name}":`, error, job);
+          deadLetters.push(job);
+          if (deadLetters.length > MEMORY_MAX_DEAD_LETTERS) {
+            deadLetters.shift();
+          }
+          return;
+        }
+        await sleep(MEMORY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  function schedule(job: T, delaySeconds = 0) {
+    // Round-trip through JSON like SQS, so jobs can't share state
+    const copy = JSON.parse(JSON.stringify(job)) as T;
+    setTimeout(() => {
+      if (handler) {
+        void run(copy);
+      } else {
+        pending.push(copy);
+      }
+    }, delaySeconds * 1000);
+  }
+
+  return {
+    name,
+    deadLetters,
+
+    async send(jobs, delaySeconds) {
+      jobs.forEach((job) => schedule(job, delaySeconds));
+    },
+
+    consume(jobHandler) {
+      handler = jobHandler;
+      pending.splice(0).forEach((job) => void run(job));
+    },
+  };
+}
+
+/**
+ * Create an SQS queue when a URL is configured, otherwise an in-memory one
+ * @param name - The queue name used for the in-memory queue
+ * @param queueUrl - Optional SQS queue URL
+ */
+export function createQueue<T>(
+  name: string,
+  queueUrl?: string
+): Queue<T> | MemoryQueue<T> {
+  return queueUrl ? createSqsQueue<T>(queueUrl) : createMemoryQueue<T>(name);
+}
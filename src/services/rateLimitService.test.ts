@@ -0,0 +1,170 @@
+// services/rateLimitService.test.ts
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dynamoDbClient from "./dynamoDbClient";
+import config from "../config/config";
+import {
+  createDynamoDbStore,
+  createMemoryStore,
+  createRateLimiter,
+  RateLimitStore,
+} from "./rateLimitService";
+
+let now = 0;
+
+beforeEach(() => {
+  now = 1_000_000;
+  mock.method(Date, "now", () => now);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("createMemoryStore", () => {
+  const limit = { capacity: 3, refillPerSecond: 1 };
+
+  it("allows a burst of `capacity` messages", async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await store.consume("k", limit)).allowed, true);
+    }
+
+    const result = await store.consume("k", limit);
+    assert.equal(result.allowed, false);
+    assert.equal(result.retryAfterMs, 1000);
+  });
+
+  it("refills the bucket over time", async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume("k", limit);
+    }
+
+    now += 1500;
+    assert.equal((await store.consume("k", limit)).allowed, true);
+    const result = await store.consume("k", limit);
+    assert.equal(result.allowed, false);
+    assert.equal(result.retryAfterMs, 500);
+  });
+
+  it("keeps a bucket per key", async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume("a", limit);
+    }
+
+    assert.equal((await store.consume("b", limit)).allowed, true);
+  });
+});
+
+describe("createDynamoDbStore", () => {
+  // 10 messages per 5 second window
+  const limit = { capacity: 10, refillPerSecond: 2 };
+
+  it("counts messages in the current window", async () => {
+    const updateItem = mock.method(dynamoDbClient, "updateItem", async () => ({
+      count: 1,
+    }));
+
+    const result = await createDynamoDbStore("RateLimits").consume("k", limit);
+    assert.equal(result.allowed, true);
+    const [table, key, , values] = updateItem.mock.calls[0].arguments;
+    assert.equal(table, "RateLimits");
+    assert.deepEqual(key, { key: "k#1000000" });
+    assert.equal(values[":capacity"], 10);
+  });
+
+  it("rejects until the window ends once it is full", async () => {
+    mock.method(dynamoDbClient, "updateItem", async () => {
+      throw Object.assign(new Error("The conditional request failed"), {
+        name: "ConditionalCheckFailedException",
+      });
+    });
+    now += 2000;
+
+    const result = await createDynamoDbStore("RateLimits").consume("k", limit);
+    assert.equal(result.allowed, false);
+    assert.equal(result.retryAfterMs, 3000);
+  });
+
+  it("lets messages through when the table can't be reached", async () => {
+    mock.method(console, "error", () => {});
+    mock.method(dynamoDbClient, "updateItem", async () => {
+      throw new Error("Service unavailable");
+    });
+
+    const result = await createDynamoDbStore("RateLimits").consume("k", limit);
+    assert.equal(result.allowed, true);
+  });
+});
+
+describe("createRateLimiter", () => {
+  const rateLimit = { ...config.rateLimit };
+  const subject = { connectionId: "c1", userId: "u1" };
+
+  beforeEach(() => {
+    Object.assign(config.rateLimit, {
+      enabled: true,
+      connection: { capacity: 2, refillPerSecond: 1 },
+      user: { capacity: 100, refillPerSecond: 100 },
+      routes: {},
+      maxViolations: 3,
+      violationWindowMs: 60000,
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(config.rateLimit, rateLimit);
+  });
+
+  it("rejects messages over the connection's limit", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    assert.equal(await limiter.check(subject, "a"), undefined);
+    assert.equal(await limiter.check(subject, "a"), undefined);
+
+    const rejection = await limiter.check(subject, "a");
+    assert.equal(rejection.error.errorCode, "RATE_LIMIT_EXCEEDED");
+    assert.equal(rejection.error.retryAfterMs, 1000);
+    assert.equal(rejection.disconnect, false);
+  });
+
+  it("disconnects once the violations run out", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    await limiter.check(subject, "a");
+    await limiter.check(subject, "a");
+
+    const rejections = [];
+    for (let i = 0; i < 4; i++) {
+      rejections.push(await limiter.check(subject, "a"));
+    }
+    assert.deepEqual(
+      rejections.map((rejection) => rejection.disconnect),
+      [false, false, false, true]
+    );
+  });
+
+  it("only looks up configured route limits", async () => {
+    config.rateLimit.routes = {
+      "session.send": { capacity: 1, refillPerSecond: 1 },
+    };
+    const keys: string[] = [];
+    const store: RateLimitStore = {
+      async consume(key) {
+        keys.push(key);
+        return { allowed: true, retryAfterMs: 0 };
+      },
+    };
+    const limiter = createRateLimiter(store);
+
+    await limiter.check(subject, "session.send");
+    await limiter.check(subject, "constructor");
+    assert.deepEqual(keys, [
+      "connection:c1",
+      "user:u1",
+      "route:session.send:user:u1",
+      "connection:c1",
+      "user:u1",
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+// services/rateLimitService.ts
+// Purpose: Token-bucket rate limiting of inbound messages - in memory for Socket.io, DynamoDB for Lambda
+import dynamoDbClient from "./dynamoDbClient";
+import config from "../config/config";
+import { RateLimitError } from "../utils/errorHandler";
+
+const rateLimitsTable = config.aws.dynamodb.tableNames.rateLimits;
+
+// Idle buckets are swept once the in-memory store holds this many
+const MEMORY_SWEEP_SIZE = 10000;
+
+/**
+ * A token bucket: up to `capacity` messages in a burst, refilled at
+ * `refillPerSecond` messages per second
+ */
+export interface RateLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until a message would be allowed again
+  retryAfterMs: number;
+}
+
+/**
+ * Storage for rate limit buckets
+ */
+export interface RateLimitStore {
+  /**
+   * Take a token from a bucket
+   * @param key - The bucket key
+   * @param limit - The bucket's size and refill rate
+   */
+  consume(key: string, limit: RateLimit): Promise<RateLimitResult>;
+}
+
+/**
+ * Create a store that keeps buckets in the current process. Suited to
+ * long-lived servers, where a connection always reaches the same process.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; limit: RateLimit }
+  >();
+
+  function refill(
+    bucket: { tokens: number; updatedAt: number; limit: RateLimit },
+    now: number
+  ) {
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      bucket.limit.capacity,
+      bucket.tokens + elapsed * bucket.limit.refillPerSecond
+    );
+    bucket.updatedAt = now;
+  }
+
+  // Drop full buckets, which behave the same as missing ones
+  function sweep(now: number) {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= bucket.limit.capacity) {
+        buckets.delete(key);
+      }
+    }
+  }
+
+  return {
+    async consume(key, limit) {
+      const now = Date.now();
+      if (buckets.size >= MEMORY_SWEEP_SIZE) {
+        sweep(now);
+      }
+
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: limit.capacity, updatedAt: now, limit };
+        buckets.set(key, bucket);
+      } else {
+        bucket.limit = limit;
+        refill(bucket, now);
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return {
+        allowed: false,
+        retryAfterMs: Math.ceil(
+          ((1 - bucket.tokens) / limit.refillPerSecond) * 1000
+        ),
+      };
+    },
+  };
+}
+
+/**
+ * Create a store backed by DynamoDB atomic counters, shared by all Lambda
+ * instances. A bucket is approximated by a fixed window of `capacity`
+ * messages per `capacity / refillPerSecond` seconds, so a single conditional
+ * update both checks and takes a token.
+ * @param tableName - The rate limits table
+ */
+export function createDynamoDbStore(tableName: string): RateLimitStore {
+  return {
+    async consume(key, limit) {
+      const now = Date.now();
+      const windowMs = Math.max(
+        1000,
+        Math.ceil((limit.capacity / limit.refillPerSecond) * 1000)
+      );
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+      const windowEnd = windowStart + windowMs;
+
+      try {
+        await dynamoDbClient.updateItem(
+          tableName,
+          { key: `${key}#${windowStart}` },
+          "ADD #count :one SET #ttl = :ttl",
+          {
+            ":one": 1,
+            ":capacity": limit.capacity,
+            // Keep the counter a little past the window's end
+            ":ttl": Math.ceil(windowEnd / 1000) + 60,
+          },
+          {
+            ConditionExpression:
+              "attribute_not_exists(#count) OR #count < :capacity",
+            ExpressionAttributeNames: { "#count": "count", "#ttl": "ttl" },
+          }
+        );
+        return { allowed: true, retryAfterMs: 0 };
+      } catch (error: any) {
+        if (error.name === "ConditionalCheckFailedException") {
+          return { allowed: false, retryAfterMs: windowEnd - now };
+        }
+        // Fail open: an unavailable table shouldn't block all traffic
+        console.error("Error consuming rate limit token:", error);
+        return { allowed: true, retryAfterMs: 0 };
+      }
+    },
+  };
+}
+
+/**
+ * Create the store selected by `config.rateLimit.store`
+ */
+export function createRateLimitStore(): RateLimitStore {
+  return config.rateLimit.store === "dynamodb"
+    ? createDynamoDbStore(rateLimitsTable)
+    : createMemoryStore();
+}
+
+/**
+ * Who sent a message
+ */
+export interface RateLimitSubject {
+  connectionId: string;
+  userId?: string;
+}
+
+/**
+ * A message over the limit
+ */
+export interface RateLimitRejection {
+  error: RateLimitError;
+  // The client kept sending over its limit and should be disconnected
+  disconnect: boolean;
+}
+
+export interface RateLimiter {
+  /**
+   * Take a token for an inbound message from the connection's and the
+   * user's buckets, and from the route's buckets if it has its own limit
+   * @param subject - The connection and user that sent the message
+   * @param action - The route or event name
+   * @returns The rejection if the message is over a limit, else undefined
+   */
+  check(
+    subject: RateLimitSubject,
+    action: string
+  ): Promise<RateLimitRejection | undefined>;
+}
+
+/**
+ * Create a rate limiter with the limits in `config.rateLimit`
+ * @param store - Where buckets are kept
+ */
+export function createRateLimiter(store: RateLimitStore): RateLimiter {
+  const { connection, user, routes, maxViolations, violationWindowMs } =
+    config.rateLimit;
+
+  // Rejected messages refill at maxViolations per window; running out of
+  // them means the client ignores the retry-after hints
+  const violationLimit: RateLimit = {
+    capacity: maxViolations,
+    refillPerSecond: maxViolations / (violationWindowMs / 1000),
+  };
+
+  return {
+    async check({ connectionId, userId }, action) {
+      if (!config.rateLimit.enabled) {
+        return undefined;
+      }
+
+      // Actions come from clients, so only the configured routes are looked up
+      const routeLimit: RateLimit | undefined =
+        Object.prototype.hasOwnProperty.call(routes, action)
+          ? routes[action]
+          : undefined;
+      const buckets: [string, RateLimit][] = [
+        [`connection:${connectionId}`, connection],
+      ];
+      if (userId) {
+        buckets.push([`user:${userId}`, user]);
+      }
+      if (routeLimit) {
+        const sender = userId ? `user:${userId}` : `connection:${connectionId}`;
+        buckets.push([`route:${action}:${sender}`, routeLimit]);
+      }
+
+      const results = await Promise.all(
+        buckets.map(([key, limit]) => store.consume(key, limit))
+      );
+      const rejected = results.filter((result) => !result.allowed);
+      if (!rejected.length) {
+        return undefined;
+      }
+
+      const retryAfterMs = Math.max(
+        ...rejected.map((result) => result.retryAfterMs)
+      );
+      const violation = await store.consume(
+        `violations:${connectionId}`,
+        violationLimit
+      );
+
+      return {
+        error: new RateLimitError(
+          "Too many messages. Please slow down.",
+          connectionId,
+          retryAfterMs
+        ),
+        disconnect: !violation.allowed,
+      };
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// services/sessionService.test.ts
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dynamoDbClient from "./dynamoDbClient";
+import sessionService from "./sessionService";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("sessionService.joinSession", () => {
+  function stubSession(invitedUserIds?: string[]) {
+    mock.method(sessionService, "getSession", async () => ({
+      sessionId: "s1",
+      createdBy: "creator",
+      createdAt: 1000,
+      ...(invitedUserIds && { invitedUserIds: new Set(invitedUserIds) }),
+    }));
+    mock.method(sessionService, "isMember", async () => false);
+    return mock.method(dynamoDbClient, "transactWrite", async () => ({}));
+  }
+
+  it("refuses users who weren't invited", async () => {
+    const transactWrite = stubSession(["u2"]);
+
+    await assert.rejects(sessionService.joinSession("s1", "u1"), {
+      errorCode: "NOT_INVITED",
+    });
+    assert.equal(transactWrite.mock.callCount(), 0);
+  });
+
+  it("uses up the invite of invited users", async () => {
+    const transactWrite = stubSession(["u1"]);
+
+    const session = await sessionService.joinSession("s1", "u1");
+    assert.equal(session.invitedUserIds, undefined);
+    const [, invite] = transactWrite.mock.calls[0].arguments[0];
+    assert.equal(
+      invite.Update.UpdateExpression,
+      "DELETE invitedUserIds :userIds"
+    );
+  });
+
+  it("lets the creator rejoin without an invite", async () => {
+    const transactWrite = stubSession();
+
+    await sessionService.joinSession("s1", "creator");
+    assert.equal(transactWrite.mock.calls[0].arguments[0].length, 1);
+  });
+});
+
+describe("sessionService.createSession", () => {
+  it("invites the other users instead of adding them", async () => {
+    const transactWrite = mock.method(
+      dynamoDbClient,
+      "transactWrite",
+      async () => ({})
+    );
+
+    const session = await sessionService.createSession("creator", "Team", [
+      "u1",
+      "creator",
+    ]);
+    assert.equal(session.invitedUserIds, undefined);
+    const [sessionPut, ...memberPuts] =
+      transactWrite.mock.calls[0].arguments[0];
+    assert.deepEqual(sessionPut.Put.Item.invitedUserIds, new Set(["u1"]));
+    assert.deepEqual(
+      memberPuts.map((put: any) => put.Put.Item.userId),
+      ["creator"]
+    );
+  });
+});
+
+describe("sessionService.inviteToSession", () => {
+  it("only lets members invite", async () => {
+    mock.method(sessionService, "getMember", async (): Promise<null> => null);
+    const updateItem = mock.method(
+      dynamoDbClient,
+      "updateItem",
+      async () => ({})
+    );
+
+    await assert.rejects(sessionService.inviteToSession("s1", "u1", ["u2"]), {
+      errorCode: "NOT_SESSION_MEMBER",
+    });
+    assert.equal(updateItem.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,380 @@
+// services/sessionService.ts
+// Purpose: Manages conversation sessions and their members
+import { v4 as uuidv4 } from "uuid";
+import dynamoDbClient, { Page } from "./dynamoDbClient";
+import config from "../config/config";
+import { AppError } from "../utils/errorHandler";
+
+const sessionsTable = config.aws.dynamodb.tableNames.sessions;
+const membersTable = config.aws.dynamodb.tableNames.sessionMembers;
+
+// GSI on the members table listing a user's sessions by join time
+const USER_INDEX = "userId-index";
+
+export interface Session {
+  sessionId: string;
+  name?: string;
+  createdBy: string;
+  createdAt: number;
+  // Users invited by a member who haven't joined yet
+  invitedUserIds?: Set<string>;
+}
+
+export interface SessionMember {
+  sessionId: string;
+  userId: string;
+  joinedAt: number;
+  // Read receipt: the last message the user has read and when they read it
+  lastReadMessageId?: string;
+  lastReadAt?: number;
+  // Timestamp of the last read message, used to count unread messages
+  lastReadTimestamp?: number;
+}
+
+/**
+ * Strip the pending invites from a session before it is returned to a client
+ */
+function withoutInvites<T extends Session>(session: T): T {
+  const { invitedUserIds, ...rest } = session;
+  return rest as T;
+}
+
+/**
+ * Session service for managing conversations and membership
+ */
+const sessionService = {
+  /**
+   * Create a session with its creator joined and other users invited.
+   * The session and the creator's membership are written in one transaction.
+   * @param createdBy - The user creating the session
+   * @param name - Optional display name
+   * @param memberIds - Other users to invite; they become members by joining
+   * @returns The created session
+   */
+  async createSession(
+    createdBy: string,
+    name?: string,
+    memberIds: string[] = []
+  ): Promise<Session> {
+    const now = Date.now();
+    const invitedUserIds = new Set(
+      memberIds.filter((userId) => userId !== createdBy)
+    );
+    const session: Session = {
+      sessionId: uuidv4(),
+      ...(name && { name }),
+      createdBy,
+      createdAt: now,
+      // DynamoDB doesn't store empty sets
+      ...(invitedUserIds.size > 0 && { invitedUserIds }),
+    };
+
+    await dynamoDbClient.transactWrite([
+      {
+        Put: {
+          TableName: sessionsTable,
+          Item: session,
+          ConditionExpression: "attribute_not_exists(sessionId)",
+        },
+      },
+      {
+        Put: {
+          TableName: membersTable,
+          Item: {
+            sessionId: session.sessionId,
+            userId: createdBy,
+            joinedAt: now,
+          },
+        },
+      },
+    ]);
+
+    return withoutInvites(session);
+  },
+
+  /**
+   * Get a session by ID
+   * @param sessionId - The session ID
+   * @returns The session or undefined if not found
+   */
+  async getSession(sessionId: string): Promise<Session | undefined> {
+    return await dynamoDbClient.getItem<Session>(sessionsTable, { sessionId });
+  },
+
+  /**
+   * Invite users to a session, so they can join it
+   * @param sessionId - The session ID
+   * @param invitedBy - The inviting user, who must be a member
+   * @param userIds - The users to invite
+   */
+  async inviteToSession(
+    sessionId: string,
+    invitedBy: string,
+    userIds: string[]
+  ): Promise<void> {
+    await this.assertMember(sessionId, invitedBy);
+
+    try {
+      await dynamoDbClient.updateItem(
+        sessionsTable,
+        { sessionId },
+        "ADD invitedUserIds :userIds",
+        { ":userIds": new Set(userIds) },
+        { ConditionExpression: "attribute_exists(sessionId)" }
+      );
+    } catch (error: any) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw new AppError("Session not found", 404, "SESSION_NOT_FOUND");
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Add a user to an existing session. Only the creator and invited users can
+   * join; the invite is used up. Joining twice keeps the original join time.
+   * @param sessionId - The session ID
+   * @param userId - The joining user
+   * @returns The session joined
+   */
+  async joinSession(sessionId: string, userId: string): Promise<Session> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new AppError("Session not found", 404, "SESSION_NOT_FOUND");
+    }
+
+    if (await this.isMember(sessionId, userId)) {
+      return withoutInvites(session);
+    }
+
+    const invited = !!session.invitedUserIds?.has(userId);
+    if (!invited && session.createdBy !== userId) {
+      throw new AppError(
+        "You have not been invited to this session",
+        403,
+        "NOT_INVITED"
+      );
+    }
+
+    await dynamoDbClient.transactWrite([
+      {
+        Update: {
+          TableName: membersTable,
+          Key: { sessionId, userId },
+          UpdateExpression: "SET joinedAt = if_not_exists(joinedAt, :now)",
+          ExpressionAttributeValues: { ":now": Date.now() },
+        },
+      },
+      // Use up the invite, unless it was revoked or used in the meantime
+      ...(invited
+        ? [
+            {
+              Update: {
+                TableName: sessionsTable,
+                Key: { sessionId },
+                UpdateExpression: "DELETE invitedUserIds :userIds",
+                ConditionExpression: "contains(invitedUserIds, :userId)",
+                ExpressionAttributeValues: {
+                  ":userIds": new Set([userId]),
+                  ":userId": userId,
+                },
+              },
+            },
+          ]
+        : []),
+    ]);
+
+    return withoutInvites(session);
+  },
+
+  /**
+   * Remove a user from a session
+   * @param sessionId - The session ID
+   * @param userId - The leaving user
+   */
+  async leaveSession(sessionId: string, userId: string): Promise<void> {
+    await dynamoDbClient.deleteItem(membersTable, { sessionId, userId });
+  },
+
+  /**
+   * Get a user's membership of a session
+   * @param sessionId - The session ID
+   * @param userId - The user ID
+   * @returns The membership or undefined if the user isn't a member
+   */
+  async getMember(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionMember | undefined> {
+    return await dynamoDbClient.getItem<SessionMember>(membersTable, {
+      sessionId,
+      userId,
+    });
+  },
+
+  /**
+   * Record that a user has read a session up to a message. Read receipts
+   * only move forward, so an older message doesn't undo a newer receipt.
+   * @param sessionId - The session ID
+   * @param userId - The reading user, who must be a member
+   * @param messageId - The last message read
+   * @param messageTimestamp - Timestamp of that message
+   * @returns The updated membership, or undefined if a newer receipt exists
+   */
+  async markRead(
+    sessionId: string,
+    userId: string,
+    messageId: string,
+    messageTimestamp: number
+  ): Promise<SessionMember | undefined> {
+    try {
+      return await dynamoDbClient.updateItem<SessionMember>(
+        membersTable,
+        { sessionId, userId },
+        "SET lastReadMessageId = :messageId, lastReadAt = :now, lastReadTimestamp = :timestamp",
+        {
+          ":messageId": messageId,
+          ":now": Date.now(),
+          ":timestamp": messageTimestamp,
+        },
+        {
+          ConditionExpression:
+            "attribute_exists(userId) AND (attribute_not_exists(lastReadTimestamp) OR lastReadTimestamp < :timestamp)",
+        }
+      );
+    } catch (error: any) {
+      if (error.name !== "ConditionalCheckFailedException") {
+        throw error;
+      }
+      await this.assertMember(sessionId, userId);
+      return undefined;
+    }
+  },
+
+  /**
+   * Check whether a user is a member of a session
+   * @param sessionId - The session ID
+   * @param userId - The user ID
+   */
+  async isMember(sessionId: string, userId: string): Promise<boolean> {
+    return !!(await this.getMember(sessionId, userId));
+  },
+
+  /**
+   * Throw unless the user is a member of the session
+   * @param sessionId - The session ID
+   * @param userId - The user ID
+   * @returns The user's membership
+   */
+  async assertMember(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionMember> {
+    const member = await this.getMember(sessionId, userId);
+    if (!member) {
+      throw new AppError(
+        "You are not a member of this session",
+        403,
+        "NOT_SESSION_MEMBER"
+      );
+    }
+    return member;
+  },
+
+  /**
+   * Get the IDs of every member of a session
+   * @param sessionId - The session ID
+   * @returns An array of user IDs
+   */
+  async getMemberIds(sessionId: string): Promise<string[]> {
+    const userIds: string[] = [];
+    for await (const member of dynamoDbClient.iterateQuery<SessionMember>(
+      membersTable,
+      "sessionId = :sessionId",
+      { ":sessionId": sessionId },
+      { ProjectionExpression: "userId" }
+    )) {
+      userIds.push(member.userId);
+    }
+    return userIds;
+  },
+
+  /**
+   * Get the IDs of every session a user belongs to
+   * @param userId - The user ID
+   * @returns An array of session IDs
+   */
+  async getUserSessionIds(userId: string): Promise<string[]> {
+    const sessionIds: string[] = [];
+    for await (const member of dynamoDbClient.iterateQuery<SessionMember>(
+      membersTable,
+      "userId = :userId",
+      { ":userId": userId },
+      { IndexName: USER_INDEX }
+    )) {
+      sessionIds.push(member.sessionId);
+    }
+    return sessionIds;
+  },
+
+  /**
+   * Check whether a user is a member of any of the given sessions
+   * @param sessionIds - The session IDs
+   * @param userId - The user ID
+   */
+  async isMemberOfAny(sessionIds: string[], userId: string): Promise<boolean> {
+    if (!sessionIds.length) {
+      return false;
+    }
+    const members = await dynamoDbClient.batchGet<SessionMember>(
+      membersTable,
+      sessionIds.map((sessionId) => ({ sessionId, userId }))
+    );
+    return members.length > 0;
+  },
+
+  /**
+   * List the sessions a user belongs to, most recently joined first
+   * @param userId - The user ID
+   * @param limit - Maximum number of sessions to return
+   * @param cursor - Cursor returned with the previous page
+   * @returns A page of sessions with the user's join time
+   */
+  async listUserSessions(
+    userId: string,
+    limit = 50,
+    cursor?: string
+  ): Promise<Page<Session & { joinedAt: number }>> {
+    const memberships = await dynamoDbClient.query<SessionMember>(
+      membersTable,
+      "userId = :userId",
+      { ":userId": userId },
+      {
+        IndexName: USER_INDEX,
+        Limit: limit,
+        ScanIndexForward: false,
+        cursor,
+      }
+    );
+
+    const sessions = await dynamoDbClient.batchGet<Session>(
+      sessionsTable,
+      memberships.items.map(({ sessionId }) => ({ sessionId }))
+    );
+    const sessionsById = new Map(
+      sessions.map((session) => [session.sessionId, session])
+    );
+
+    return {
+      items: memberships.items
+        .filter(({ sessionId }) => sessionsById.has(sessionId))
+        .map(({ sessionId, joinedAt }) => ({
+          ...withoutInvites(sessionsById.get(sessionId)),
+          joinedAt,
+        })),
+      nextCursor: memberships.nextCursor,
+    };
+  },
+};
+
+export default sessionService;
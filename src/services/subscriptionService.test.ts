@@ -0,0 +1,63 @@
+// services/subscriptionService.test.ts
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dynamoDbClient from "./dynamoDbClient";
+import subscriptionService from "./subscriptionService";
+import connectionService from "./connectionService";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("subscriptionService.touchConnection", () => {
+  it("extends the TTL of each of the connection's subscriptions", async () => {
+    mock.method(subscriptionService, "getConnectionChannels", async () => [
+      "a",
+      "b",
+    ]);
+    const updateItem = mock.method(
+      dynamoDbClient,
+      "updateItem",
+      async () => ({})
+    );
+
+    await subscriptionService.touchConnection("c1", 1_000_000);
+    assert.deepEqual(
+      updateItem.mock.calls.map((call) => call.arguments[1]),
+      [
+        { channel: "a", connectionId: "c1" },
+        { channel: "b", connectionId: "c1" },
+      ]
+    );
+    assert.deepEqual(updateItem.mock.calls[0].arguments[3], {
+      ":ttl": 1000 + 60 * 60 * 2,
+    });
+  });
+
+  it("skips subscriptions removed in the meantime", async () => {
+    mock.method(subscriptionService, "getConnectionChannels", async () => [
+      "a",
+    ]);
+    mock.method(dynamoDbClient, "updateItem", async () => {
+      throw Object.assign(new Error("The conditional request failed"), {
+        name: "ConditionalCheckFailedException",
+      });
+    });
+
+    await subscriptionService.touchConnection("c1");
+  });
+});
+
+describe("connectionService.touchConnection", () => {
+  it("extends the subscriptions of live connections", async () => {
+    mock.method(dynamoDbClient, "updateItem", async () => ({}));
+    const touch = mock.method(
+      subscriptionService,
+      "touchConnection",
+      async () => {}
+    );
+
+    assert.equal(await connectionService.touchConnection("c1", 5000), true);
+    assert.deepEqual(touch.mock.calls[0].arguments, ["c1", 5000]);
+  });
+});
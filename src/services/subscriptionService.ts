@@ -0,0 +1,204 @@
+// /services/subscriptionService
+import dynamoDbClient from "./dynamoDbClient";
+import config from "../config/config";
+import { mapWithConcurrency } from "../utils/concurrency";
+
+const TABLE_NAME = config.aws.dynamodb.tableNames.subscriptions;
+const CONNECTION_INDEX = "connectionId-index";
+
+// Subscriptions expire with their connection: 2 hours after it was last seen
+const SUBSCRIPTION_TTL_SECONDS = 60 * 60 * 2;
+
+export interface Subscription {
+  channel: string;
+  connectionId: string;
+  userId?: string;
+  timestamp: number;
+  ttl: number;
+}
+
+/**
+ * Service for managing channel subscriptions (rooms) stored in DynamoDB.
+ * The table is keyed by channel + connectionId, with a GSI on connectionId
+ * so a connection's subscriptions can be cleaned up when it goes away.
+ */
+const subscriptionService = {
+  /**
+   * Subscribe a connection to a channel with the same 2-hour TTL as connections.
+   * @param channel - The channel (room) name.
+   * @param connectionId - The WebSocket connection ID.
+   * @param userId - Optional ID of the user owning the connection.
+   */
+  async subscribe(
+    channel: string,
+    connectionId: string,
+    userId?: string
+  ): Promise<void> {
+    const timestamp = Date.now();
+    const ttl = Math.floor(timestamp / 1000) + SUBSCRIPTION_TTL_SECONDS;
+
+    const subscription: Subscription = {
+      channel,
+      connectionId,
+      ...(userId && { userId }),
+      timestamp,
+      ttl,
+    };
+
+    try {
+      await dynamoDbClient.putItem(TABLE_NAME, subscription);
+    } catch (error) {
+      console.error("Error subscribing to channel:", error);
+      throw new Error("Failed to subscribe to channel");
+    }
+  },
+
+  /**
+   * Unsubscribe a connection from a channel.
+   * @param channel - The channel (room) name.
+   * @param connectionId - The WebSocket connection ID.
+   */
+  async unsubscribe(channel: string, connectionId: string): Promise<void> {
+    try {
+      await dynamoDbClient.deleteItem(TABLE_NAME, { channel, connectionId });
+    } catch (error) {
+      console.error("Error unsubscribing from channel:", error);
+      throw new Error("Failed to unsubscribe from channel");
+    }
+  },
+
+  /**
+   * Get the IDs of all connections subscribed to a channel.
+   * @param channel - The channel (room) name.
+   * @returns An array of connection IDs.
+   */
+  async getChannelConnections(channel: string): Promise<string[]> {
+    const connectionIds: string[] = [];
+    try {
+      for await (const subscription of dynamoDbClient.iterateQuery<Subscription>(
+        TABLE_NAME,
+        "channel = :channel",
+        { ":channel": channel },
+        { ProjectionExpression: "connectionId" }
+      )) {
+        connectionIds.push(subscription.connectionId);
+      }
+      return connectionIds;
+    } catch (error) {
+      console.error("Error fetching channel connections:", error);
+      throw new Error("Failed to fetch channel connections");
+    }
+  },
+
+  /**
+   * Get the channels a connection is subscribed to.
+   * @param connectionId - The WebSocket connection ID.
+   * @returns An array of channel names.
+   */
+  async getConnectionChannels(connectionId: string): Promise<string[]> {
+    const channels: string[] = [];
+    try {
+      for await (const subscription of dynamoDbClient.iterateQuery<Subscription>(
+        TABLE_NAME,
+        "connectionId = :connectionId",
+        { ":connectionId": connectionId },
+        { IndexName: CONNECTION_INDEX }
+      )) {
+        channels.push(subscription.channel);
+      }
+      return channels;
+    } catch (error) {
+      console.error("Error fetching connection channels:", error);
+      throw new Error("Failed to fetch connection channels");
+    }
+  },
+
+  /**
+   * Extend the TTL of every subscription held by a connection, alongside the
+   * connection's own TTL, so long-lived connections keep their channels.
+   * @param connectionId - The WebSocket connection ID.
+   * @param lastSeen - When the connection was last active (default: now).
+   */
+  async touchConnection(
+    connectionId: string,
+    lastSeen = Date.now()
+  ): Promise<void> {
+    const channels = await this.getConnectionChannels(connectionId);
+    const ttl = Math.floor(lastSeen / 1000) + SUBSCRIPTION_TTL_SECONDS;
+
+    try {
+      await mapWithConcurrency(
+        channels,
+        config.websocket.broadcastConcurrency,
+        async (channel) => {
+          try {
+            await dynamoDbClient.updateItem(
+              TABLE_NAME,
+              { channel, connectionId },
+              "SET #ttl = :ttl",
+              { ":ttl": ttl },
+              {
+                // Don't recreate subscriptions removed in the meantime
+                ConditionExpression: "attribute_exists(connectionId)",
+                ExpressionAttributeNames: { "#ttl": "ttl" },
+              }
+            );
+          } catch (error: any) {
+            if (error.name !== "ConditionalCheckFailedException") {
+              throw error;
+            }
+          }
+        }
+      );
+    } catch (error) {
+      console.error("Error extending subscription TTLs:", error);
+      throw new Error("Failed to extend subscription TTLs");
+    }
+  },
+
+  /**
+   * Remove every subscription held by a connection.
+   * Called on $disconnect and when a post hits a stale (410) connection.
+   * @param connectionId - The WebSocket connection ID.
+   */
+  async removeConnection(connectionId: string): Promise<void> {
+    const channels = await this.getConnectionChannels(connectionId);
+
+    try {
+      await dynamoDbClient.batchWrite(TABLE_NAME, {
+        deleteKeys: channels.map((channel: string) => ({
+          channel,
+          connectionId,
+        })),
+      });
+    } catch (error) {
+      console.error("Error removing connection subscriptions:", error);
+      throw new Error("Failed to remove connection subscriptions");
+    }
+  },
+
+  /**
+   * Remove every subscription held by any of the given connections in one batch.
+   * @param connectionIds - The WebSocket connection IDs.
+   */
+  async removeConnections(connectionIds: string[]): Promise<void> {
+    const channelsPerConnection: string[][] = await Promise.all(
+      connectionIds.map((connectionId) =>
+        this.getConnectionChannels(connectionId)
+      )
+    );
+
+    try {
+      await dynamoDbClient.batchWrite(TABLE_NAME, {
+        deleteKeys: connectionIds.flatMap((connectionId, i) =>
+          channelsPerConnection[i].map((channel) => ({ channel, connectionId }))
+        ),
+      });
+    } catch (error) {
+      console.error("Error removing connection subscriptions:", error);
+      throw new Error("Failed to remove connection subscriptions");
+    }
+  },
+};
+
+export default subscriptionService;
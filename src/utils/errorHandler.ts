@@ -70,16 +70,21 @@ export class ConnectionError extends AppError {
  * Specialized error class for rate limiting in Socket.IO.
  */
 export class RateLimitError extends AppError {
+  retryAfterMs?: number; // How long the client should wait before retrying
+
   /**
    * Constructs a RateLimitError instance.
    * @param {string} message - A human-readable rate limit error message.
    * @param {string} [socketId] - The Socket.IO connection ID related to this error.
+   * @param {number} [retryAfterMs] - How long the client should wait before retrying.
    */
   constructor(
     message = "Too many requests. Please try again later.",
-    socketId?: string
+    socketId?: string,
+    retryAfterMs?: number
   ) {
     super(message, 429, "RATE_LIMIT_EXCEEDED", socketId);
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -178,6 +183,10 @@ export const sendSocketError = (
     error: appError.message, // Human-readable error message
     errorCode: appError.errorCode, // Internal error code
     status: appError.statusCode, // Status code
+    ...(appError instanceof RateLimitError &&
+      appError.retryAfterMs !== undefined && {
+        retryAfterMs: appError.retryAfterMs, // When to retry
+      }),
     socketId: appError.socketId, // Include socket ID for easier debugging
     timestamp: new Date().toISOString(), // Add timestamp
   });
@@ -229,6 +238,10 @@ export const withErrorHandling = (handler: Function) => {
           error: appError.message,
           errorCode: appError.errorCode,
           status: appError.statusCode,
+          ...(appError instanceof RateLimitError &&
+            appError.retryAfterMs !== undefined && {
+              retryAfterMs: appError.retryAfterMs,
+            }),
         });
       }
     }
@@ -268,13 +281,29 @@ export const handleDynamoDBError = (
         "RESOURCE_NOT_FOUND",
         socketId
       );
-    case "TransactionCanceledException":
+    case "TransactionCanceledException": {
+      // One reason per transaction item, "None" for items that did not fail
+      const reasons: string[] = (error.CancellationReasons || [])
+        .map((reason: any) => reason?.Code)
+        .filter((code: string) => code && code !== "None");
+
+      if (reasons.includes("ConditionalCheckFailed")) {
+        return new AppError(
+          "The condition for the operation was not met.",
+          400,
+          "CONDITION_FAILED",
+          socketId
+        );
+      }
       return new AppError(
-        "The transaction was canceled.",
+        reasons.length > 0
+          ? `The transaction was canceled (${reasons.join(", ")}).`
+          : "The transaction was canceled.",
         409,
         "TRANSACTION_CANCELED",
         socketId
       );
+    }
     case "ItemCollectionSizeLimitExceededException":
       return new AppError(
         "Item collection size limit exceeded.",
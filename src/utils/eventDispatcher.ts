@@ -0,0 +1,296 @@
+// utils/eventDispatcher.ts
+// Purpose: Routes non-API Gateway Lambda events (EventBridge, SQS, DynamoDB Streams) to registered handlers
+import { FastifyBaseLogger } from "fastify";
+import {
+  Context,
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  EventBridgeEvent,
+  SQSBatchResponse,
+  SQSRecord,
+} from "aws-lambda";
+
+export type EventBridgeHandler = (
+  event: EventBridgeEvent<string, any>,
+  context: Context
+) => Promise<unknown>;
+
+export type SqsRecordHandler = (
+  record: SQSRecord,
+  context: Context
+) => Promise<void>;
+
+export type StreamRecordHandler = (
+  record: DynamoDBRecord,
+  context: Context
+) => Promise<void>;
+
+/**
+ * Dispatcher for the event sources the Lambda `handler` accepts besides
+ * API Gateway. Handlers are registered per schedule, EventBridge event
+ * type, SQS queue and DynamoDB table.
+ */
+export interface EventDispatcher {
+  /**
+   * Run a job on an EventBridge schedule
+   * @param ruleName - Name of the schedule rule, or its suffix after a "-"
+   * (e.g. "reap-connections" matches "websocket-api-dev-reap-connections")
+   * @param handler - The job
+   */
+  onSchedule(ruleName: string, handler: EventBridgeHandler): void;
+  /**
+   * Handle events put on an EventBridge bus
+   * @param source - The event source, e.g. "orders.service"
+   * @param detailType - The event's detail-type
+   * @param handler - The event handler
+   */
+  onEvent(
+    source: string,
+    detailType: string,
+    handler: EventBridgeHandler
+  ): void;
+  /**
+   * Handle the messages of an SQS queue, one record at a time. Records whose
+   * handler throws are reported as batch item failures and retried by SQS.
+   * @param queueName - The queue name (last part of the queue ARN)
+   * @param handler - The record handler
+   */
+  onQueue(queueName: string, handler: SqsRecordHandler): void;
+  /**
+   * Handle the change records of a DynamoDB table's stream, in order
+   * @param tableName - The table name
+   * @param handler - The record handler
+   */
+  onStream(tableName: string, handler: StreamRecordHandler): void;
+  /**
+   * Dispatch an event to the registered handlers
+   * @returns Whether the event came from a supported source, and the
+   * response to return to Lambda
+   */
+  dispatch(
+    event: any,
+    context: Context
+  ): Promise<{ handled: boolean; response?: unknown }>;
+}
+
+/**
+ * Get the resource name from an ARN such as
+ * arn:aws:sqs:region:account:queue-name or
+ * arn:aws:dynamodb:region:account:table/name/stream/label
+ */
+function getArnResourceName(arn: string | undefined): string | undefined {
+  const resource = arn?.split(":").slice(5).join(":");
+  if (!resource) {
+    return undefined;
+  }
+  return resource.startsWith("table/") || resource.startsWith("rule/")
+    ? resource.split("/")[1]
+    : resource;
+}
+
+function isEventBridgeEvent(
+  event: any
+): event is EventBridgeEvent<string, any> {
+  return typeof event?.["detail-type"] === "string" && !!event.source;
+}
+
+function getRecordSource(event: any): string | undefined {
+  return Array.isArray(event?.Records)
+    ? event.Records[0]?.eventSource
+    : undefined;
+}
+
+/**
+ * Create an event dispatcher
+ * @param log - Logger for dispatch outcomes
+ */
+export function createEventDispatcher(log: FastifyBaseLogger): EventDispatcher {
+  const schedules = new Map<string, EventBridgeHandler>();
+  const events = new Map<string, EventBridgeHandler>();
+  const queues = new Map<string, SqsRecordHandler>();
+  const streams = new Map<string, StreamRecordHandler>();
+
+  function register<T>(handlers: Map<string, T>, key: string, handler: T) {
+    if (handlers.has(key)) {
+      throw new Error(`Event handler for "${key}" is already registered`);
+    }
+    handlers.set(key, handler);
+  }
+
+  function findSchedule(event: EventBridgeEvent<string, any>) {
+    for (const arn of event.resources) {
+      const ruleName = getArnResourceName(arn);
+      if (!ruleName) {
+        continue;
+      }
+      // Deployed rule names are usually prefixed with the service and stage
+      for (const [name, handler] of schedules) {
+        if (ruleName === name || ruleName.endsWith(`-${name}`)) {
+          return { ruleName, handler };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  async function dispatchEventBridge(
+    event: EventBridgeEvent<string, any>,
+    context: Context
+  ) {
+    const eventLog = log.child({
+      event: "eventbridge",
+      source: event.source,
+      detailType: event["detail-type"],
+      eventId: event.id,
+    });
+
+    if (
+      event.source === "aws.events" &&
+      event["detail-type"] === "Scheduled Event"
+    ) {
+      const schedule = findSchedule(event);
+      if (!schedule) {
+        eventLog.warn(
+          { resources: event.resources },
+          "No job registered for schedule"
+        );
+        return undefined;
+      }
+      eventLog.info({ ruleName: schedule.ruleName }, "Running scheduled job");
+      return await schedule.handler(event, context);
+    }
+
+    const handler = events.get(`${event.source}:${event["detail-type"]}`);
+    if (!handler) {
+      eventLog.warn("No handler registered for event");
+      return undefined;
+    }
+    return await handler(event, context);
+  }
+
+  async function dispatchSqs(
+    records: SQSRecord[],
+    context: Context
+  ): Promise<SQSBatchResponse> {
+    const failures: string[] = [];
+
+    // FIFO queues must be processed in order: stop at the first failure and
+    // hand the rest of the message group back to SQS
+    const ordered = records.some((record) =>
+      record.eventSourceARN.endsWith(".fifo")
+    );
+
+    const processRecord = async (record: SQSRecord) => {
+      const queueName = getArnResourceName(record.eventSourceARN);
+      const handler = queueName && queues.get(queueName);
+      try {
+        if (!handler) {
+          throw new Error(`No handler registered for queue "${queueName}"`);
+        }
+        await handler(record, context);
+        return true;
+      } catch (error) {
+        log.error(
+          { error, queueName, messageId: record.messageId, event: "sqs" },
+          "Failed to process SQS message"
+        );
+        failures.push(record.messageId);
+        return false;
+      }
+    };
+
+    if (ordered) {
+      for (const [index, record] of records.entries()) {
+        if (!(await processRecord(record))) {
+          failures.push(
+            ...records.slice(index + 1).map((rest) => rest.messageId)
+          );
+          break;
+        }
+      }
+    } else {
+      await Promise.all(records.map(processRecord));
+    }
+
+    return {
+      batchItemFailures: failures.map((itemIdentifier) => ({ itemIdentifier })),
+    };
+  }
+
+  async function dispatchStream(
+    records: DynamoDBRecord[],
+    context: Context
+  ): Promise<DynamoDBBatchResponse> {
+    // Records of a shard are processed in order; Lambda retries the batch
+    // from the first failed record
+    for (const record of records) {
+      const tableName = getArnResourceName(record.eventSourceARN);
+      const handler = tableName && streams.get(tableName);
+      if (!handler) {
+        log.warn(
+          { tableName, event: "dynamodb_stream" },
+          "No handler registered for stream"
+        );
+        continue;
+      }
+
+      try {
+        await handler(record, context);
+      } catch (error) {
+        const sequenceNumber = record.dynamodb?.SequenceNumber;
+        log.error(
+          { error, tableName, sequenceNumber, event: "dynamodb_stream" },
+          "Failed to process stream record"
+        );
+        if (!sequenceNumber) {
+          // Without a sequence number the whole batch has to be retried
+          throw error;
+        }
+        return { batchItemFailures: [{ itemIdentifier: sequenceNumber }] };
+      }
+    }
+    return { batchItemFailures: [] };
+  }
+
+  return {
+    onSchedule(ruleName, handler) {
+      register(schedules, ruleName, handler);
+    },
+
+    onEvent(source, detailType, handler) {
+      register(events, `${source}:${detailType}`, handler);
+    },
+
+    onQueue(queueName, handler) {
+      register(queues, queueName, handler);
+    },
+
+    onStream(tableName, handler) {
+      register(streams, tableName, handler);
+    },
+
+    async dispatch(event, context) {
+      switch (getRecordSource(event)) {
+        case "aws:sqs":
+          return {
+            handled: true,
+            response: await dispatchSqs(event.Records, context),
+          };
+        case "aws:dynamodb":
+          return {
+            handled: true,
+            response: await dispatchStream(event.Records, context),
+          };
+      }
+
+      if (isEventBridgeEvent(event)) {
+        return {
+          handled: true,
+          response: await dispatchEventBridge(event, context),
+        };
+      }
+
+      return { handled: false };
+    },
+  };
+}